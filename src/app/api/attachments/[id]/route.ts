@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/serverAuth';
+import { Attachment } from '@/lib/attachments';
+import { getFileStorage } from '@/lib/storage';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Without an uploader, any attachment RLS shows the caller, i.e. those in
+// chats they are a member of
+async function requireAttachment(
+  supabase: SupabaseClient,
+  attachmentId: string,
+  uploaderId?: string
+): Promise<Attachment> {
+  let query = supabase.from('attachments').select('*').eq('id', attachmentId);
+  if (uploaderId) query = query.eq('user_id', uploaderId);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ApiError(404, 'not_found', 'Attachment not found');
+  }
+  return data as Attachment;
+}
+
+// Downloads the original file; every member of the chat can
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser();
+    const attachment = await requireAttachment(supabase, id);
+
+    const data = await getFileStorage(supabase).download(attachment.storage_path);
+
+    // Plain ASCII fallback plus the exact name for browsers that read RFC 5987
+    const fallbackName = attachment.name.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.content_type,
+        'Content-Disposition': `attachment; filename="${fallbackName}"; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Removes a file that was uploaded but not sent yet
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser();
+    const attachment = await requireAttachment(supabase, id, user.id);
+
+    if (attachment.message_id) {
+      throw new ApiError(409, 'attachment_sent', 'Attachments of sent messages cannot be removed');
+    }
+
+    const { error } = await supabase.from('attachments').delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting attachment:', error);
+      throw new ApiError(500, 'delete_failed', 'Failed to remove the attachment');
+    }
+    await getFileStorage(supabase).remove([attachment.storage_path]);
+
+    return NextResponse.json({ attachment: null });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
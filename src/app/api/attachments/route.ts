@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, requireChatAccess } from '@/lib/serverAuth';
+import {
+  ATTACHMENT_INFO_COLUMNS,
+  AttachmentInfo,
+  getAttachmentContentType,
+  MAX_ATTACHMENT_BYTES,
+} from '@/lib/attachments';
+import { extractAttachmentText } from '@/lib/attachmentText';
+import { getFileStorage } from '@/lib/storage';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+// Uploads a file for the next message of a chat. The body is multipart form
+// data with `chatId` and `file`; the message links it when it is sent.
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, user } = await requireUser();
+
+    const formData = await request.formData().catch(() => {
+      throw new ApiError(400, 'invalid_request', 'Request body must be multipart form data');
+    });
+    const chatId = formData.get('chatId');
+    const file = formData.get('file');
+    if (typeof chatId !== 'string' || !(file instanceof File)) {
+      throw new ApiError(400, 'invalid_request', 'Expected a chatId and a file');
+    }
+
+    await requireChatAccess(supabase, chatId, user.id, 'editor');
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      throw new ApiError(
+        413,
+        'attachment_too_large',
+        `Files cannot exceed ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+      );
+    }
+
+    const contentType = getAttachmentContentType(file.name);
+    if (!contentType) {
+      throw new ApiError(
+        415,
+        'unsupported_file_type',
+        'Only text, Markdown, CSV, JSON, source code and PDF files can be attached'
+      );
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const { text, truncated } = await extractAttachmentText(data, contentType);
+
+    const id = crypto.randomUUID();
+    const storagePath = `${user.id}/${chatId}/${id}`;
+    const storage = getFileStorage(supabase);
+    await storage.upload(storagePath, data, contentType);
+
+    const { data: attachment, error } = await supabase
+      .from('attachments')
+      .insert({
+        id,
+        chat_id: chatId,
+        user_id: user.id,
+        name: file.name,
+        content_type: contentType,
+        size: file.size,
+        storage_path: storagePath,
+        extracted_text: text,
+        truncated,
+      })
+      .select(ATTACHMENT_INFO_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error saving attachment:', error);
+      await storage.remove([storagePath]).catch(() => {});
+      throw new ApiError(500, 'save_failed', 'Failed to save the attachment');
+    }
+
+    return NextResponse.json({ attachment: attachment as AttachmentInfo });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,79 +1,480 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { generateChatCompletion } from '@/lib/openai';
-import { supabase } from '@/lib/supabaseClient';
-import { cookies } from 'next/headers';
+import { NextRequest } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ChatCompletionMessage, getChatProvider, TokenUsage, ToolCall } from '@/lib/ai';
+import { Message } from '@/lib/supabaseClient';
+import { encodeChatEvent, ChatStreamEvent } from '@/lib/chatStream';
+import { parseChatRequest } from '@/lib/chatRequest';
+import { buildChatContext, requireTurnFits } from '@/lib/chatContext';
+import { withAttachments } from '@/lib/attachmentText';
+import { Attachment } from '@/lib/attachments';
+import { toCompletionOptions } from '@/lib/chatSettings';
+import { getMaxToolIterations, getToolDefinitions, runToolCall } from '@/lib/tools';
+import { generateChatTitle, needsGeneratedTitle } from '@/lib/chatTitle';
+import { recordUsage } from '@/lib/usage';
+import { enforceChatLimits } from '@/lib/quotas';
+import { requireUser, requireChatAccess } from '@/lib/serverAuth';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+const STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+// Postgres error code of an insert that hit a unique index
+const UNIQUE_VIOLATION = '23505';
+
+const CONTINUE_INSTRUCTIONS =
+  'Your last reply was cut off. Continue it from exactly where it stopped, ' +
+  'without repeating any of it or adding an introduction.';
+
+// Loads a message and checks that it belongs to the chat
+async function requireChatMessage(
+  supabase: SupabaseClient,
+  chatId: string,
+  messageId: string
+): Promise<Message> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('id', messageId)
+    .eq('chat_id', chatId)
+    .single();
+
+  if (error || !data) {
+    throw new ApiError(400, 'invalid_message', 'Message not found in this chat');
+  }
+
+  return data as Message;
+}
+
+// Finds the message an earlier request with the same idempotency key saved
+async function findKeyedMessage(
+  supabase: SupabaseClient,
+  chatId: string,
+  role: 'user' | 'assistant',
+  clientKey: string
+): Promise<Message | null> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_id', chatId)
+    .eq('role', role)
+    .eq('client_key', clientKey)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Message | null;
+}
+
+// Whether anyone besides the owner belongs to the chat
+async function hasOtherMembers(supabase: SupabaseClient, chatId: string): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('chat_members')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('chat_id', chatId);
+
+  if (error) throw error;
+  return (count ?? 0) > 1;
+}
+
+// Checks that uploaded files belong to the chat, were uploaded by the
+// sender and haven't been sent yet. Members can see each other's uploads.
+async function requirePendingAttachments(
+  supabase: SupabaseClient,
+  chatId: string,
+  userId: string,
+  attachmentIds: string[]
+): Promise<Attachment[]> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('*')
+    .in('id', attachmentIds)
+    .eq('chat_id', chatId)
+    .eq('user_id', userId)
+    .is('message_id', null);
+
+  if (error) throw error;
+  if (data.length !== new Set(attachmentIds).size) {
+    throw new ApiError(400, 'invalid_attachment', 'Attachment not found or already sent');
+  }
+  // In upload order, as the model will see them
+  return (data as Attachment[]).sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { messages, chatId } = await request.json();
-
     // Verify authentication
-    const cookieStore = cookies();
-    const supabaseToken = cookieStore.get('sb-access-token')?.value;
-    
-    if (!supabaseToken) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const { supabase, user } = await requireUser();
 
-    // Create Supabase client with user's token
-    const supabaseClient = supabase;
-    
-    // Verify chat ownership
-    const { data: userData, error: userError } = await supabaseClient.auth.getUser();
-    
-    if (userError || !userData.user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const body = await parseChatRequest(request);
+    const { chatId } = body;
 
-    const { data: chatData, error: chatError } = await supabaseClient
-      .from('chats')
-      .select('*')
-      .eq('id', chatId)
-      .eq('user_id', userData.user.id)
-      .single();
-
-    if (chatError || !chatData) {
-      return NextResponse.json(
-        { error: 'Chat not found or access denied' },
-        { status: 403 }
+    // Owners and editors can add to a chat; viewers only read it
+    const { chat } = await requireChatAccess(supabase, chatId, user.id, 'editor');
+
+    // A retry whose reply was saved too only needs to deliver it, which
+    // doesn't count against the limits
+    const savedReply = body.clientKey
+      ? await findKeyedMessage(supabase, chatId, 'assistant', body.clientKey)
+      : null;
+    if (savedReply) {
+      const savedUserMessage =
+        body.action === 'send' && body.clientKey
+          ? (await findKeyedMessage(supabase, chatId, 'user', body.clientKey)) ?? undefined
+          : undefined;
+      const replay = [
+        encodeChatEvent({
+          type: 'start',
+          messageId: savedReply.id,
+          // Replies always sit below the message they answer
+          parentId: savedReply.parent_id ?? '',
+          userMessage: savedUserMessage,
+        }),
+        encodeChatEvent({ type: 'done', message: savedReply }),
+      ];
+      return new Response(
+        new ReadableStream<Uint8Array>({
+          start(controller) {
+            replay.forEach((chunk) => controller.enqueue(chunk));
+            controller.close();
+          },
+        }),
+        { headers: STREAM_HEADERS }
       );
     }
 
-    // Generate AI response
-    const aiResponse = await generateChatCompletion(messages);
-
-    // Save AI response to database
-    const { error: insertError } = await supabaseClient
-      .from('messages')
-      .insert([
-        {
-          chat_id: chatId,
-          role: 'assistant',
-          content: aiResponse || 'I apologize, but I was unable to generate a response.',
-          created_at: new Date().toISOString(),
-        },
-      ]);
-
-    if (insertError) {
-      console.error('Error inserting AI response:', insertError);
-      return NextResponse.json(
-        { error: 'Failed to save AI response' },
-        { status: 500 }
-      );
+    // Checked before anything is saved or sent to the provider
+    await enforceChatLimits(supabase, user.id);
+
+    // The reply is attached below replyParentId, which is the end of the
+    // branch the model sees
+    let replyParentId: string;
+    let userMessage: Message | undefined;
+    // The reply being continued; the new one starts with its text
+    let stoppedReply: Message | undefined;
+
+    if (body.action === 'continue') {
+      const original = await requireChatMessage(supabase, chatId, body.messageId);
+      if (original.role !== 'assistant' || !original.stopped || !original.parent_id) {
+        throw new ApiError(400, 'invalid_message', 'Only stopped replies can be continued');
+      }
+      stoppedReply = original;
+      replyParentId = original.parent_id;
+    } else if (body.action === 'regenerate') {
+      const original = await requireChatMessage(supabase, chatId, body.messageId);
+      if (original.role !== 'assistant' || !original.parent_id) {
+        throw new ApiError(400, 'invalid_message', 'Only assistant replies can be regenerated');
+      }
+      // The new reply makes its own tool calls, so it starts above the old
+      // reply's tool steps
+      let parent = await requireChatMessage(supabase, chatId, original.parent_id);
+      while (parent.role === 'tool' && parent.parent_id) {
+        parent = await requireChatMessage(supabase, chatId, parent.parent_id);
+      }
+      replyParentId = parent.id;
+    } else {
+      // A retry of a send whose message was already saved finds it by its
+      // key; its files were linked to it then
+      userMessage = body.clientKey
+        ? (await findKeyedMessage(supabase, chatId, 'user', body.clientKey)) ?? undefined
+        : undefined;
+
+      if (!userMessage) {
+        if (body.parentId) {
+          await requireChatMessage(supabase, chatId, body.parentId);
+        }
+        const attachmentIds = body.attachmentIds || [];
+        const attachments =
+          attachmentIds.length > 0
+            ? await requirePendingAttachments(supabase, chatId, user.id, attachmentIds)
+            : [];
+        requireTurnFits(chat, getChatProvider(), user, withAttachments(body.content, attachments));
+
+        // Save the user's message so it becomes part of the stored history
+        const { data, error: userMessageError } = await supabase
+          .from('messages')
+          .insert([
+            {
+              chat_id: chatId,
+              parent_id: body.parentId,
+              role: 'user',
+              content: body.content,
+              user_id: user.id,
+              client_key: body.clientKey ?? null,
+              created_at: new Date().toISOString(),
+            },
+          ])
+          .select()
+          .single();
+
+        if (userMessageError) {
+          console.error('Error inserting user message:', userMessageError);
+          throw new ApiError(500, 'save_failed', 'Failed to save message');
+        }
+
+        userMessage = data as Message;
+
+        if (attachmentIds.length > 0) {
+          const { data: linked, error: attachError } = await supabase
+            .from('attachments')
+            .update({ message_id: userMessage.id })
+            .in('id', attachmentIds)
+            .eq('user_id', user.id)
+            .is('message_id', null)
+            .select('id');
+
+          // Fewer rows when a file was sent by a concurrent request meanwhile
+          if (attachError || linked.length !== new Set(attachmentIds).size) {
+            console.error('Error linking attachments:', attachError);
+            throw new ApiError(500, 'save_failed', 'Failed to attach files to the message');
+          }
+        }
+      }
+
+      replyParentId = userMessage.id;
     }
 
-    return NextResponse.json({ success: true });
+    // Build the conversation from the database rather than the request,
+    // summarizing older turns if the history outgrows the context window.
+    // A continued reply is sent with its stopped text as the last turn, and
+    // keeps the sources that text was written from.
+    const provider = getChatProvider();
+    const context = await buildChatContext(supabase, chat, provider, {
+      user,
+      leafId: stoppedReply?.id ?? replyParentId,
+      retrieve: !stoppedReply,
+    });
+    const { usage } = context;
+    const messages = stoppedReply
+      ? [...context.messages, { role: 'system' as const, content: CONTINUE_INSTRUCTIONS }]
+      : context.messages;
+    const citations = stoppedReply?.citations ?? context.citations;
+    const prefix = stoppedReply?.content ?? '';
+
+    // Stopping in the client closes the connection, which aborts the
+    // provider request so generation stops upstream too
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort());
+
+    // Start the AI response before opening the stream so provider errors
+    // still surface as a regular JSON error response
+    const options = {
+      ...toCompletionOptions(chat, provider.capabilities),
+      signal: abortController.signal,
+    };
+    const useTools = !stoppedReply && chat.tools_enabled && provider.capabilities.tools;
+    const shared = useTools && (await hasOtherMembers(supabase, chatId));
+    const toolOptions = useTools ? { ...options, tools: getToolDefinitions(shared) } : options;
+    let startedAt = Date.now();
+    let completion = await provider.stream(messages, toolOptions);
+
+    // The id is chosen up front so the client can match the realtime INSERT
+    // for this message to the draft it has been rendering
+    const assistantMessageId = crypto.randomUUID();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          // Nobody is listening once the client has gone
+          if (abortController.signal.aborted) return;
+          controller.enqueue(encodeChatEvent(event));
+        };
+
+        send({
+          type: 'start',
+          messageId: assistantMessageId,
+          parentId: replyParentId,
+          userMessage,
+          content: stoppedReply ? prefix : undefined,
+        });
+        send({ type: 'context', usage });
+
+        try {
+          let reply = '';
+          let usage: TokenUsage | undefined;
+          // The prompt of the current step, and the message the reply goes under
+          let prompt = messages;
+          let parentId = replyParentId;
+          let stopped = false;
+          const maxIterations = getMaxToolIterations();
+
+          try {
+            // Each round either answers or calls tools. Results are saved as
+            // tool messages and sent back; the last round is offered no tools,
+            // so the model has to answer.
+            for (let iteration = 0; ; iteration++) {
+              reply = '';
+              usage = undefined;
+              let toolCalls: ToolCall[] = [];
+
+              for await (const chunk of completion) {
+                if (chunk.usage) usage = chunk.usage;
+                if (chunk.toolCalls) toolCalls = chunk.toolCalls;
+                if (!chunk.delta) continue;
+                reply += chunk.delta;
+                send({ type: 'delta', content: chunk.delta });
+              }
+              if (toolCalls.length === 0) break;
+
+              await recordUsage(supabase, chat, {
+                purpose: 'reply',
+                model: options.model || provider.defaultModel,
+                prompt,
+                reply,
+                usage,
+                latencyMs: Date.now() - startedAt,
+              });
+
+              const results: ChatCompletionMessage[] = [];
+              for (const call of toolCalls) {
+                const result = await runToolCall(call, { supabaseClient: supabase, user, chat, shared });
+                const { data: toolData, error: toolError } = await supabase
+                  .from('messages')
+                  .insert([
+                    {
+                      chat_id: chatId,
+                      parent_id: parentId,
+                      role: 'tool',
+                      content: result,
+                      tool_call: call,
+                      created_at: new Date().toISOString(),
+                    },
+                  ])
+                  .select()
+                  .single();
+
+                if (toolError) {
+                  console.error('Error inserting tool message:', toolError);
+                  send({ type: 'error', error: 'Failed to save tool result' });
+                  return;
+                }
+
+                const toolMessage = toolData as Message;
+                parentId = toolMessage.id;
+                results.push({ role: 'tool', content: result, toolCallId: call.id });
+                send({ type: 'tool', message: toolMessage });
+              }
+
+              prompt = [...prompt, { role: 'assistant', content: reply, toolCalls }, ...results];
+              startedAt = Date.now();
+              completion = await provider.stream(
+                prompt,
+                iteration + 1 < maxIterations ? toolOptions : options
+              );
+            }
+          } catch (error) {
+            if (!abortController.signal.aborted) throw error;
+            // Stopped by the user; what was written so far is kept
+            stopped = true;
+          }
+          const latencyMs = Date.now() - startedAt;
+
+          // Nothing to keep when the user stopped before any text arrived,
+          // unless tool steps were saved; a stopped reply then closes the
+          // branch below them, even without text
+          if (stopped && !reply && parentId === replyParentId) {
+            await recordUsage(supabase, chat, {
+              purpose: 'reply',
+              model: options.model || provider.defaultModel,
+              prompt,
+              reply,
+              usage,
+              latencyMs,
+            });
+            return;
+          }
+
+          // Save the complete AI response to the database once
+          const { data: messageData, error: insertError } = await supabase
+            .from('messages')
+            .insert([
+              {
+                id: assistantMessageId,
+                chat_id: chatId,
+                parent_id: parentId,
+                role: 'assistant',
+                content:
+                  prefix + reply ||
+                  (stopped ? '' : 'I apologize, but I was unable to generate a response.'),
+                citations: citations.length > 0 ? citations : null,
+                stopped,
+                client_key: body.clientKey ?? null,
+                created_at: new Date().toISOString(),
+              },
+            ])
+            .select()
+            .single();
+
+          if (insertError) {
+            // A retry sent while this request was still streaming saved its
+            // reply first; that one is delivered instead
+            const keptReply =
+              insertError.code === UNIQUE_VIOLATION && body.clientKey
+                ? await findKeyedMessage(supabase, chatId, 'assistant', body.clientKey)
+                : null;
+            if (!keptReply) {
+              console.error('Error inserting AI response:', insertError);
+              send({ type: 'error', error: 'Failed to save AI response' });
+              return;
+            }
+
+            send({ type: 'done', message: keptReply });
+            await recordUsage(supabase, chat, {
+              purpose: 'reply',
+              model: options.model || provider.defaultModel,
+              prompt,
+              reply,
+              usage,
+              latencyMs,
+            });
+            return;
+          }
+
+          send({ type: 'done', message: messageData as Message });
+
+          // A stopped request was still billed for what it produced
+          await recordUsage(supabase, chat, {
+            purpose: 'reply',
+            model: options.model || provider.defaultModel,
+            prompt,
+            reply,
+            usage,
+            latencyMs,
+            messageId: assistantMessageId,
+          });
+
+          // Name a new chat after its first exchange; the home page picks the
+          // title up through its realtime subscription. Stopped and continued
+          // replies leave it to the next exchange.
+          if (!stopped && !stoppedReply && needsGeneratedTitle(chat)) {
+            try {
+              const title = await generateChatTitle(supabase, chat, provider, {
+                // The typed text; the last context message also carries any files
+                userContent: userMessage?.content ?? messages[messages.length - 1].content,
+                assistantContent: (messageData as Message).content,
+              });
+              if (title) send({ type: 'title', title });
+            } catch (error) {
+              console.error('Error generating chat title:', error);
+            }
+          }
+        } catch (error) {
+          console.error('Error streaming AI response:', error);
+          send({ type: 'error', error: 'Failed to generate AI response' });
+        } finally {
+          if (!abortController.signal.aborted) controller.close();
+        }
+      },
+
+      // Called when the client stops reading, e.g. after pressing Stop
+      cancel() {
+        abortController.abort();
+      },
+    });
+
+    return new Response(stream, { headers: STREAM_HEADERS });
   } catch (error) {
-    console.error('Error in chat API route:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChatProvider } from '@/lib/ai';
+import { buildChatContext } from '@/lib/chatContext';
+import { requireUser, requireChatAccess } from '@/lib/serverAuth';
+import { errorResponse } from '@/lib/errors';
+
+// Reports how much of the context window a branch of the chat uses
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser();
+    const { chat } = await requireChatAccess(supabase, id, user.id);
+
+    // The client passes the end of the branch it is showing
+    const { usage } = await buildChatContext(supabase, chat, getChatProvider(), {
+      user,
+      leafId: request.nextUrl.searchParams.get('leafId'),
+      refreshSummary: false,
+    });
+
+    return NextResponse.json({ usage });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
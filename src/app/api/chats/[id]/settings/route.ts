@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProviderInfo } from '@/lib/ai';
+import { createChatSettingsSchema } from '@/lib/chatSettings';
+import { requireUser, requireChatAccess } from '@/lib/serverAuth';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser();
+    await requireChatAccess(supabase, id, user.id, 'editor');
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, 'invalid_json', 'Request body must be valid JSON');
+    });
+
+    // Validate against what the configured provider actually supports
+    const result = createChatSettingsSchema(await getProviderInfo()).safeParse(body);
+    if (!result.success) {
+      throw new ApiError(400, 'invalid_settings', 'Invalid chat settings', result.error.flatten());
+    }
+
+    const { data, error } = await supabase
+      .from('chats')
+      .update(result.data)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating chat settings:', error);
+      throw new ApiError(500, 'save_failed', 'Failed to save chat settings');
+    }
+
+    return NextResponse.json({ chat: data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
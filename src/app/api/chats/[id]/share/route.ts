@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, requireOwnedChat } from '@/lib/serverAuth';
+import { ChatShare, createShareToken, shareSettingsSchema } from '@/lib/chatShare';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The chat's share link, or null when it isn't shared
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser();
+    await requireOwnedChat(supabase, id, user.id);
+
+    const { data, error } = await supabase
+      .from('chat_shares')
+      .select('*')
+      .eq('chat_id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return NextResponse.json({ share: data as ChatShare | null });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Creates the share link, or updates its settings and keeps the token
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser();
+    await requireOwnedChat(supabase, id, user.id);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, 'invalid_json', 'Request body must be valid JSON');
+    });
+
+    const result = shareSettingsSchema.safeParse(body);
+    if (!result.success) {
+      throw new ApiError(400, 'invalid_request', 'Invalid share settings', result.error.flatten());
+    }
+    const includeSystemPrompt = result.data.includeSystemPrompt === true;
+
+    const { data: existing, error: existingError } = await supabase
+      .from('chat_shares')
+      .select('id')
+      .eq('chat_id', id)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    const { data, error } = existing
+      ? await supabase
+          .from('chat_shares')
+          .update({ include_system_prompt: includeSystemPrompt })
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await supabase
+          .from('chat_shares')
+          .insert({
+            chat_id: id,
+            user_id: user.id,
+            token: createShareToken(),
+            include_system_prompt: includeSystemPrompt,
+          })
+          .select()
+          .single();
+
+    if (error) {
+      console.error('Error saving chat share:', error);
+      throw new ApiError(500, 'save_failed', 'Failed to save the share link');
+    }
+
+    return NextResponse.json({ share: data as ChatShare });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Revokes the share link; the old URL stops working immediately
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser();
+    await requireOwnedChat(supabase, id, user.id);
+
+    const { error } = await supabase.from('chat_shares').delete().eq('chat_id', id);
+
+    if (error) {
+      console.error('Error revoking chat share:', error);
+      throw new ApiError(500, 'delete_failed', 'Failed to revoke the share link');
+    }
+
+    return NextResponse.json({ share: null });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { Chat } from '@/lib/supabaseClient';
+import { requireUser, requireChatAccess } from '@/lib/serverAuth';
+import {
+  buildChatExport,
+  exportQuerySchema,
+  ExportFormat,
+  toFineTuningJsonl,
+  toMarkdown,
+} from '@/lib/chatExport';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  markdown: 'text/markdown; charset=utf-8',
+  jsonl: 'application/jsonl',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+  jsonl: 'jsonl',
+};
+
+// Downloads one chat, or all of the user's chats, as a file
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, user } = await requireUser();
+
+    const result = exportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!result.success) {
+      throw new ApiError(400, 'invalid_request', 'Invalid export query', result.error.flatten());
+    }
+    const { format, chatId } = result.data;
+
+    let chats: Chat[];
+    if (chatId) {
+      // Any member can export a chat shared with them
+      const { chat } = await requireChatAccess(supabase, chatId, user.id);
+      chats = [chat];
+    } else {
+      const { data, error } = await supabase
+        .from('chats')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      chats = data as Chat[];
+    }
+
+    const chatExport = await buildChatExport(supabase, chats);
+    const body =
+      format === 'markdown'
+        ? toMarkdown(chatExport)
+        : format === 'jsonl'
+          ? toFineTuningJsonl(chatExport)
+          : JSON.stringify(chatExport, null, 2);
+
+    const date = chatExport.exported_at.slice(0, 10);
+    const filename = `ghostchat-${chatId ? `chat-${chatId}` : 'export'}-${date}.${EXTENSIONS[format]}`;
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProviderInfo } from '@/lib/ai';
+import { requireUser } from '@/lib/serverAuth';
+import { importChats, MAX_IMPORT_BYTES, parseImport } from '@/lib/chatImport';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+// Imports chats from a GhostChat export or ChatGPT's conversations.json.
+// With ?dryRun=true nothing is saved and the response previews the import.
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, user } = await requireUser();
+
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_IMPORT_BYTES) {
+      throw new ApiError(413, 'import_too_large', 'Import file is too large');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError(400, 'invalid_json', 'Request body must be valid JSON');
+    }
+
+    const chats = parseImport(body, await getProviderInfo());
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+    const chatIds = dryRun ? [] : await importChats(supabase, user.id, chats);
+
+    return NextResponse.json({
+      dryRun,
+      chats: chats.map((chat, index) => ({
+        ...(dryRun ? {} : { id: chatIds[index] }),
+        title: chat.title,
+        messageCount: chat.messages.length,
+        warnings: chat.warnings,
+      })),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
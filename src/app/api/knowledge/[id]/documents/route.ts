@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/serverAuth';
+import { getChatProvider } from '@/lib/ai';
+import { getAttachmentContentType } from '@/lib/attachments';
+import { extractAttachmentText } from '@/lib/attachmentText';
+import { MAX_DOCUMENT_BYTES, MAX_DOCUMENT_CHARS } from '@/lib/knowledge';
+import { indexDocument, requireOwnedKnowledgeBase } from '@/lib/retrieval';
+import { enforceChatLimits } from '@/lib/quotas';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Adds a document to a knowledge base. The body is multipart form data with
+// `file`; its text is chunked and embedded before the response is sent.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser();
+    await requireOwnedKnowledgeBase(supabase, id, user.id);
+
+    const formData = await request.formData().catch(() => {
+      throw new ApiError(400, 'invalid_request', 'Request body must be multipart form data');
+    });
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      throw new ApiError(400, 'invalid_request', 'Expected a file');
+    }
+
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      throw new ApiError(
+        413,
+        'document_too_large',
+        `Documents cannot exceed ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`
+      );
+    }
+
+    // Knowledge bases accept the same files as message attachments
+    const contentType = getAttachmentContentType(file.name);
+    if (!contentType) {
+      throw new ApiError(
+        415,
+        'unsupported_file_type',
+        'Only text, Markdown, CSV, JSON, source code and PDF files can be added'
+      );
+    }
+
+    // Embedding requests count toward the user's quotas
+    await enforceChatLimits(supabase, user.id);
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const { text, truncated } = await extractAttachmentText(data, contentType, MAX_DOCUMENT_CHARS);
+
+    const document = await indexDocument(
+      supabase,
+      getChatProvider(),
+      {
+        knowledge_base_id: id,
+        user_id: user.id,
+        name: file.name,
+        content_type: contentType,
+        size: file.size,
+        truncated,
+      },
+      text
+    );
+
+    return NextResponse.json({ document });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
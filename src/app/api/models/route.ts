@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getProviderInfo } from '@/lib/ai';
+import { requireUser } from '@/lib/serverAuth';
+import { errorResponse } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    await requireUser();
+    return NextResponse.json(await getProviderInfo());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
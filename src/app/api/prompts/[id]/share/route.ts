@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { requireUser } from '@/lib/serverAuth';
+import { createShareToken } from '@/lib/chatShare';
+import { SavedPrompt } from '@/lib/prompts';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function setShareToken(
+  supabase: SupabaseClient,
+  promptId: string,
+  userId: string,
+  shareToken: string | null
+): Promise<SavedPrompt> {
+  const { data, error } = await supabase
+    .from('prompts')
+    .update({ share_token: shareToken })
+    .eq('id', promptId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating prompt copy link:', error);
+    throw new ApiError(500, 'save_failed', 'Failed to update the copy link');
+  }
+  if (!data) {
+    throw new ApiError(403, 'forbidden', 'Prompt not found or access denied');
+  }
+
+  return data as SavedPrompt;
+}
+
+// Creates a copy link for a prompt in the user's library, keeping an existing one
+export async function PUT(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser();
+
+    const { data: existing, error } = await supabase
+      .from('prompts')
+      .select('share_token')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!existing) {
+      throw new ApiError(403, 'forbidden', 'Prompt not found or access denied');
+    }
+
+    const prompt = await setShareToken(
+      supabase,
+      id,
+      user.id,
+      existing.share_token || createShareToken()
+    );
+    return NextResponse.json({ prompt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Revokes the copy link; copies already made are not affected
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser();
+
+    const prompt = await setShareToken(supabase, id, user.id, null);
+    return NextResponse.json({ prompt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
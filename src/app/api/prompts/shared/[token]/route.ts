@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/serverAuth';
+import { getAdminClient } from '@/lib/supabaseAdmin';
+import { isShareToken } from '@/lib/chatShare';
+import { loadSharedPrompt, SavedPrompt } from '@/lib/prompts';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ token: string }> };
+
+// The prompt belongs to another user, so it is read with the service role
+// once the token has matched
+async function requireSharedPrompt(token: string) {
+  const prompt = isShareToken(token) ? await loadSharedPrompt(getAdminClient(), token) : null;
+  if (!prompt) {
+    throw new ApiError(404, 'not_found', 'This copy link does not exist or has been revoked');
+  }
+  return prompt;
+}
+
+// Preview of a prompt shared through a copy link. The owner is not revealed.
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    await requireUser();
+
+    const prompt = await requireSharedPrompt(token);
+    return NextResponse.json({ prompt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Copies the shared prompt into the signed-in user's library
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params;
+    const { supabase, user } = await requireUser();
+
+    const { name, content } = await requireSharedPrompt(token);
+
+    const { data, error } = await supabase
+      .from('prompts')
+      .insert({ user_id: user.id, name, content })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error copying prompt:', error);
+      throw new ApiError(500, 'save_failed', 'Failed to copy the prompt');
+    }
+
+    return NextResponse.json({ prompt: data as SavedPrompt });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
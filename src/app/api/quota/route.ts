@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/serverAuth';
+import { getQuotaStatus } from '@/lib/quotas';
+import { errorResponse } from '@/lib/errors';
+
+// The signed-in user's plan and remaining token quota
+export async function GET() {
+  try {
+    const { supabase, user } = await requireUser();
+    return NextResponse.json(await getQuotaStatus(supabase, user.id));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/serverAuth';
+import { searchQuerySchema, SearchResult } from '@/lib/search';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+// Full-text search over the user's chat titles and messages
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase } = await requireUser();
+
+    const result = searchQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!result.success) {
+      throw new ApiError(400, 'invalid_request', 'Invalid search query', result.error.flatten());
+    }
+
+    // RLS inside search_chats keeps the results to the user's own chats
+    const { data, error } = await supabase.rpc('search_chats', {
+      search_query: result.data.q,
+      result_limit: result.data.limit,
+    });
+
+    if (error) throw error;
+
+    return NextResponse.json({ results: data as SearchResult[] });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
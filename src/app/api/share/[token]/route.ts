@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminClient } from '@/lib/supabaseAdmin';
+import { isShareToken, loadSharedChat } from '@/lib/chatShare';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+// Public, read-only view of a shared chat. Viewers have no session, so the
+// chat is read with the service role after the token has been matched.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const chat = isShareToken(token) ? await loadSharedChat(getAdminClient(), token) : null;
+    if (!chat) {
+      throw new ApiError(404, 'not_found', 'This share link does not exist or has been revoked');
+    }
+
+    // Not cached, so revoking a link takes effect immediately
+    return NextResponse.json({ chat }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
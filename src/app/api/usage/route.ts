@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/serverAuth';
+import { summarizeUsage, toUsageCsv, usageQuerySchema, UsageRow } from '@/lib/usage';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Token usage and estimated cost of the signed-in user over the last `days`
+// days, as breakdowns (JSON) or one line per request (CSV)
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase, user } = await requireUser();
+
+    const result = usageQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!result.success) {
+      throw new ApiError(400, 'invalid_request', 'Invalid usage query', result.error.flatten());
+    }
+    const { days, format } = result.data;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const rows: UsageRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('usage_records')
+        .select('*, chats(title)')
+        .eq('user_id', user.id)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...(data as UsageRow[]));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    if (format === 'csv') {
+      return new Response(toUsageCsv(rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="ghostchat-usage-${since.slice(0, 10)}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(summarizeUsage(rows, since));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import { safeRedirectPath } from '@/lib/auth';
+
+// Landing page of confirmation, magic-link, password reset and email change
+// emails and of OAuth sign-ins. Exchanges the one-time code for a session
+// cookie and continues to `next`; failures go to the home page with
+// ?auth_error=<Supabase error code>.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const next = safeRedirectPath(searchParams.get('next'));
+
+  const fail = (code: string) => {
+    const url = request.nextUrl.clone();
+    url.pathname = '/';
+    url.search = `?auth_error=${encodeURIComponent(code)}`;
+    return NextResponse.redirect(url);
+  };
+
+  // Supabase redirects here with the error instead of a code when the link
+  // has expired or the provider refused
+  const redirectError = searchParams.get('error_code') || searchParams.get('error');
+  if (redirectError) {
+    return fail(redirectError);
+  }
+
+  const code = searchParams.get('code');
+  if (code) {
+    // auth-helpers reads cookies synchronously, while Next.js 15 hands them out
+    // through a promise, so the resolved store is passed in
+    const cookieStore = await cookies();
+    const supabase = createRouteHandlerClient({
+      cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+    });
+
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) {
+      console.error('Error exchanging auth code:', error);
+      return fail(error.code || 'unexpected_failure');
+    }
+  }
+
+  // Without a code (e.g. the first of two email change confirmations) there is
+  // nothing to exchange
+  return NextResponse.redirect(new URL(next, request.nextUrl.origin));
+}
@@ -1,20 +1,16 @@
 'use client';
 
-import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { use } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { useAuth } from '@/components/AuthContext';
 import ChatWindow from '@/components/ChatWindow';
 import Link from 'next/link';
 
-export default function ChatPage({ params }: { params: { id: string } }) {
+export default function ChatPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
   const { user, loading } = useAuth();
-  const router = useRouter();
-
-  useEffect(() => {
-    if (!loading && !user) {
-      router.push('/');
-    }
-  }, [user, loading, router]);
+  // Set when arriving from a search result
+  const focusMessageId = useSearchParams().get('message');
 
   if (loading) {
     return (
@@ -24,8 +20,10 @@ export default function ChatPage({ params }: { params: { id: string } }) {
     );
   }
 
+  // The middleware only lets signed-in users through; this covers signing
+  // out while the page is open
   if (!user) {
-    return null; // Will redirect in useEffect
+    return null;
   }
 
   return (
@@ -54,7 +52,7 @@ export default function ChatPage({ params }: { params: { id: string } }) {
 
       <main className="flex-1 max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
         <div className="bg-white shadow rounded-lg overflow-hidden h-[calc(100vh-12rem)]">
-          <ChatWindow chatId={params.id} />
+          <ChatWindow chatId={id} focusMessageId={focusMessageId} />
         </div>
       </main>
 
@@ -0,0 +1,73 @@
+'use client';
+
+import { useAuth } from '@/components/AuthContext';
+import KnowledgeBaseManager from '@/components/KnowledgeBaseManager';
+import Link from 'next/link';
+
+export default function KnowledgePage() {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // The middleware only lets signed-in users through; this covers signing
+  // out while the page is open
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <div className="flex items-center">
+            <Link href="/" className="text-gray-600 hover:text-gray-900 mr-4">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                viewBox="0 0 20 20"
+                fill="currentColor"
+              >
+                <path
+                  fillRule="evenodd"
+                  d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Knowledge Bases</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
+        <KnowledgeBaseManager />
+      </main>
+
+      <footer className="bg-white border-t border-gray-200 py-4">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center text-sm text-gray-500">
+          <p>
+            GhostChat - A production-ready, open-source AI chat template using
+            Next.js, Supabase, and OpenAI
+          </p>
+          <p className="mt-1">
+            Licensed under the{' '}
+            <a
+              href="https://thewitnesshall.com"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Flame Public Use License v1.0
+            </a>
+          </p>
+        </div>
+      </footer>
+    </div>
+  );
+}
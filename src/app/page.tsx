@@ -1,18 +1,63 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useAuth } from '@/components/AuthContext';
 import { SignInForm, SignUpForm } from '@/components/AuthForms';
-import Link from 'next/link';
+import ChatListItem from '@/components/ChatListItem';
+import ChatSearch from '@/components/ChatSearch';
+import ExportLinks from '@/components/ExportLinks';
+import ImportChats from '@/components/ImportChats';
+import SharedChats from '@/components/SharedChats';
 import { supabase, Chat } from '@/lib/supabaseClient';
-import { getRelativeTime } from '@/utils/formatTimestamp';
+import { DEFAULT_CHAT_TITLE } from '@/lib/chatTitle';
+import { authErrorMessage, safeRedirectPath } from '@/lib/auth';
+import { DEFAULT_SYSTEM_PROMPT, SavedPrompt } from '@/lib/prompts';
 
 export default function Home() {
   const { user, loading, signOut } = useAuth();
+  const router = useRouter();
   const [authView, setAuthView] = useState<'signin' | 'signup'>('signin');
   const [chats, setChats] = useState<Chat[]>([]);
   const [isCreatingChat, setIsCreatingChat] = useState(false);
-  const [newChatTitle, setNewChatTitle] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [prompts, setPrompts] = useState<SavedPrompt[]>([]);
+  // Library prompt for new chats; empty for the default prompt
+  const [newChatPromptId, setNewChatPromptId] = useState('');
+
+  // Pinned chats first (most recently pinned on top), then newest first
+  const visibleChats = useMemo(
+    () =>
+      chats
+        .filter((chat) => showArchived || !chat.archived_at)
+        .sort(
+          (a, b) =>
+            (b.pinned_at || '').localeCompare(a.pinned_at || '') ||
+            b.created_at.localeCompare(a.created_at)
+        ),
+    [chats, showArchived]
+  );
+
+  // The middleware sends signed-out visitors of protected pages here with
+  // ?next=<path>; return them there once they have signed in
+  useEffect(() => {
+    if (!user) return;
+    const next = new URLSearchParams(window.location.search).get('next');
+    if (next && safeRedirectPath(next) === next) {
+      router.replace(next);
+    }
+  }, [user, router]);
+
+  // The auth callback sends failed email links and OAuth sign-ins here with
+  // ?auth_error=<code>
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get('auth_error');
+    if (code) {
+      setAuthError(authErrorMessage({ code }, 'Signing in failed. Please try again.'));
+    }
+  }, []);
 
   useEffect(() => {
     if (!user) return;
@@ -54,13 +99,18 @@ export default function Home() {
                 chat.id === payload.new.id ? (payload.new as Chat) : chat
               )
             );
-          } else if (payload.eventType === 'DELETE') {
-            setChats((prev) =>
-              prev.filter((chat) => chat.id !== payload.old.id)
-            );
           }
         }
       )
+      // Postgres can't filter DELETE events, whose old record only carries
+      // the id, so they arrive unfiltered and are matched against the list
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'chats' },
+        (payload) => {
+          setChats((prev) => prev.filter((chat) => chat.id !== payload.old.id));
+        }
+      )
       .subscribe();
 
     return () => {
@@ -68,34 +118,80 @@ export default function Home() {
     };
   }, [user]);
 
-  const handleCreateChat = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!user || !newChatTitle.trim()) return;
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchPrompts = async () => {
+      const { data, error } = await supabase
+        .from('prompts')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching prompt library:', error);
+        return;
+      }
+      setPrompts(data as SavedPrompt[]);
+    };
+
+    fetchPrompts();
+  }, [user]);
+
+  // The chat is named by the server after its first exchange
+  const handleCreateChat = async () => {
+    if (!user) return;
 
     setIsCreatingChat(true);
     try {
       const newChat = {
         user_id: user.id,
-        title: newChatTitle.trim(),
+        title: DEFAULT_CHAT_TITLE,
         created_at: new Date().toISOString(),
-        system_prompt: 'You are a helpful assistant.',
+        // Custom fields of a library prompt are filled in from the chat
+        system_prompt:
+          prompts.find((prompt) => prompt.id === newChatPromptId)?.content ||
+          DEFAULT_SYSTEM_PROMPT,
       };
 
-      const { data, error } = await supabase.from('chats').insert([newChat]).select();
+      const { data, error } = await supabase.from('chats').insert([newChat]).select('id').single();
 
       if (error) throw error;
-      
-      if (data && data[0]) {
-        window.location.href = `/chat/${data[0].id}`;
-      }
+      router.push(`/chat/${data.id}`);
     } catch (error) {
       console.error('Error creating chat:', error);
-    } finally {
       setIsCreatingChat(false);
-      setNewChatTitle('');
     }
   };
 
+  // Changes reach the list through the realtime subscription, in every tab
+  const updateChat = async (chatId: string, changes: Partial<Chat>) => {
+    if (!user) return;
+    const { error } = await supabase
+      .from('chats')
+      .update(changes)
+      .eq('id', chatId)
+      .eq('user_id', user.id);
+    if (error) throw error;
+  };
+
+  const handleDeleteChat = async (chatId: string) => {
+    if (!user) return;
+    const { error } = await supabase
+      .from('chats')
+      .delete()
+      .eq('id', chatId)
+      .eq('user_id', user.id);
+    if (error) throw error;
+    // Removed here too, in case the realtime event is late or missed
+    setChats((prev) => prev.filter((chat) => chat.id !== chatId));
+  };
+
+  const handleDuplicateChat = async (chatId: string) => {
+    const { error } = await supabase.rpc('duplicate_chat', { source_chat_id: chatId });
+    if (error) throw error;
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -115,11 +211,17 @@ export default function Home() {
             </p>
           </div>
 
+          {authError && (
+            <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
+              {authError}
+            </div>
+          )}
+
           {authView === 'signin' ? (
             <>
               <SignInForm />
               <p className="mt-4 text-center text-gray-600">
-                Don't have an account?{' '}
+                Don&apos;t have an account?{' '}
                 <button
                   onClick={() => setAuthView('signup')}
                   className="text-blue-600 hover:text-blue-800"
@@ -152,59 +254,103 @@ export default function Home() {
       <header className="bg-white shadow-sm">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-900">GhostChat</h1>
-          <button
-            onClick={() => signOut()}
-            className="text-gray-600 hover:text-gray-900"
-          >
-            Sign out
-          </button>
+          <div className="flex items-center gap-4">
+            <Link href="/usage" className="text-gray-600 hover:text-gray-900">
+              Usage
+            </Link>
+            <Link href="/prompts" className="text-gray-600 hover:text-gray-900">
+              Prompts
+            </Link>
+            <Link href="/knowledge" className="text-gray-600 hover:text-gray-900">
+              Knowledge
+            </Link>
+            <Link href="/account" className="text-gray-600 hover:text-gray-900">
+              Account
+            </Link>
+            <button
+              onClick={() => signOut()}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              Sign out
+            </button>
+          </div>
         </div>
       </header>
 
       <main className="flex-1 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-6">
-          <form onSubmit={handleCreateChat} className="flex gap-2">
-            <input
-              type="text"
-              value={newChatTitle}
-              onChange={(e) => setNewChatTitle(e.target.value)}
-              placeholder="Enter chat title..."
-              className="flex-1 p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              disabled={isCreatingChat}
-            />
-            <button
-              type="submit"
-              disabled={!newChatTitle.trim() || isCreatingChat}
-              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        <div className="mb-6 flex items-center gap-2">
+          <button
+            onClick={handleCreateChat}
+            disabled={isCreatingChat}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isCreatingChat ? 'Creating...' : 'New Chat'}
+          </button>
+          {prompts.length > 0 && (
+            <select
+              value={newChatPromptId}
+              onChange={(e) => setNewChatPromptId(e.target.value)}
+              className="p-2 border border-gray-300 rounded-md bg-white text-sm"
+              aria-label="System prompt for the new chat"
             >
-              {isCreatingChat ? 'Creating...' : 'New Chat'}
-            </button>
-          </form>
+              <option value="">Default prompt</option>
+              {prompts.map((prompt) => (
+                <option key={prompt.id} value={prompt.id}>
+                  {prompt.name}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
 
+        <ChatSearch />
+
+        <SharedChats userId={user.id} />
+
         <div className="bg-white shadow rounded-lg overflow-hidden">
-          <div className="px-4 py-5 sm:px-6">
+          <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
             <h2 className="text-lg font-medium text-gray-900">Your Chats</h2>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+              />
+              Show archived
+            </label>
+          </div>
+          <div className="px-4 pb-4 sm:px-6 flex flex-wrap items-start gap-x-6 gap-y-2">
+            <ExportLinks />
+            <ImportChats />
           </div>
           <ul className="divide-y divide-gray-200">
-            {chats.length === 0 ? (
+            {visibleChats.length === 0 ? (
               <li className="px-4 py-5 sm:px-6 text-gray-500 text-center">
                 No chats yet. Create your first chat above!
               </li>
             ) : (
-              chats.map((chat) => (
-                <li key={chat.id} className="px-4 py-4 sm:px-6 hover:bg-gray-50">
-                  <Link href={`/chat/${chat.id}`} className="block">
-                    <div className="flex items-center justify-between">
-                      <p className="text-sm font-medium text-blue-600 truncate">
-                        {chat.title}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        {getRelativeTime(chat.created_at)}
-                      </p>
-                    </div>
-                  </Link>
-                </li>
+              visibleChats.map((chat) => (
+                <ChatListItem
+                  key={chat.id}
+                  chat={chat}
+                  // A title typed by the user is kept from then on
+                  onRename={(title) => updateChat(chat.id, { title, title_locked: true })}
+                  onToggleTitleLock={() =>
+                    updateChat(chat.id, { title_locked: !chat.title_locked })
+                  }
+                  onTogglePin={() =>
+                    updateChat(chat.id, {
+                      pinned_at: chat.pinned_at ? null : new Date().toISOString(),
+                    })
+                  }
+                  onToggleArchive={() =>
+                    updateChat(chat.id, {
+                      archived_at: chat.archived_at ? null : new Date().toISOString(),
+                    })
+                  }
+                  onDuplicate={() => handleDuplicateChat(chat.id)}
+                  onDelete={() => handleDeleteChat(chat.id)}
+                />
               ))
             )}
           </ul>
@@ -0,0 +1,50 @@
+'use client';
+
+import type { AttachmentInfo } from '@/lib/attachments';
+import { formatFileSize } from '@/utils/formatFileSize';
+
+interface AttachmentChipProps {
+  attachment: AttachmentInfo;
+  // Shown for files that haven't been sent yet
+  onRemove?: () => void;
+  removeDisabled?: boolean;
+}
+
+export default function AttachmentChip({
+  attachment,
+  onRemove,
+  removeDisabled = false,
+}: AttachmentChipProps) {
+  return (
+    <span className="inline-flex items-center max-w-full gap-1 px-2 py-1 text-xs bg-white text-gray-700 border border-gray-300 rounded-full">
+      {/* The session cookie authenticates the download */}
+      <a
+        href={`/api/attachments/${attachment.id}`}
+        download={attachment.name}
+        className="truncate hover:underline"
+        title={
+          attachment.truncated
+            ? 'The model only sees the beginning of this file'
+            : attachment.name
+        }
+      >
+        {attachment.name}
+      </a>
+      <span className="text-gray-500 whitespace-nowrap">
+        {formatFileSize(attachment.size)}
+        {attachment.truncated && ' · cut off'}
+      </span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={removeDisabled}
+          className="px-1 text-gray-500 hover:text-red-600 disabled:opacity-50"
+          aria-label={`Remove ${attachment.name}`}
+        >
+          &times;
+        </button>
+      )}
+    </span>
+  );
+}
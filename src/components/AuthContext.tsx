@@ -1,16 +1,30 @@
 'use client';
 
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import type { Provider } from '@supabase/supabase-js';
 import { supabase, User } from '@/lib/supabaseClient';
+import { AUTH_CALLBACK_PATH } from '@/lib/auth';
 
 type AuthContextType = {
   user: User | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string) => Promise<void>;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  signInWithOAuth: (provider: Provider) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+  updateEmail: (email: string) => Promise<void>;
   signOut: () => Promise<void>;
 };
 
+// Absolute URL of the auth callback, which sends the browser on to `next`
+function callbackUrl(next?: string): string {
+  const url = new URL(AUTH_CALLBACK_PATH, window.location.origin);
+  if (next) url.searchParams.set('next', next);
+  return url.toString();
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -47,7 +61,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // Subscribe to auth changes
     const { data: authListener } = supabase.auth.onAuthStateChange(
       async (event, session) => {
-        if (session && event === 'SIGNED_IN') {
+        // USER_UPDATED follows a password or confirmed email change
+        if (session && (event === 'SIGNED_IN' || event === 'USER_UPDATED')) {
           setUser({
             id: session.user.id,
             email: session.user.email || '',
@@ -87,6 +102,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const { error } = await supabase.auth.signUp({
         email,
         password,
+        options: { emailRedirectTo: callbackUrl() },
       });
       
       if (error) throw error;
@@ -98,6 +114,72 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const signInWithMagicLink = async (email: string) => {
+    try {
+      // Only signs in existing users; new ones go through sign-up
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: callbackUrl(), shouldCreateUser: false },
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error sending magic link:', error);
+      throw error;
+    }
+  };
+
+  const signInWithOAuth = async (provider: Provider) => {
+    try {
+      // Navigates away to the provider; the callback finishes the sign-in
+      const { error } = await supabase.auth.signInWithOAuth({
+        provider,
+        options: { redirectTo: callbackUrl() },
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error(`Error signing in with ${provider}:`, error);
+      throw error;
+    }
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    try {
+      // The link signs the user in and opens the set-new-password page
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: callbackUrl('/auth/reset-password'),
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      throw error;
+    }
+  };
+
+  const updatePassword = async (password: string) => {
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating password:', error);
+      throw error;
+    }
+  };
+
+  const updateEmail = async (email: string) => {
+    try {
+      // Takes effect once the confirmation link is opened; with secure email
+      // change enabled, both the old and the new address get one
+      const { error } = await supabase.auth.updateUser(
+        { email },
+        { emailRedirectTo: callbackUrl('/account?email_changed=true') }
+      );
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating email:', error);
+      throw error;
+    }
+  };
+
   const signOut = async () => {
     setLoading(true);
     try {
@@ -112,7 +194,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        loading,
+        signIn,
+        signUp,
+        signInWithMagicLink,
+        signInWithOAuth,
+        requestPasswordReset,
+        updatePassword,
+        updateEmail,
+        signOut,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
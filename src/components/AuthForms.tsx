@@ -1,25 +1,87 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
+import type { Provider } from '@supabase/supabase-js';
 import { useAuth } from './AuthContext';
+import { authErrorMessage, getOAuthProviders } from '@/lib/auth';
+
+export function OAuthButtons() {
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<Provider | null>(null);
+  const { signInWithOAuth } = useAuth();
+  const providers = getOAuthProviders();
+
+  if (providers.length === 0) return null;
+
+  const handleClick = async (provider: Provider) => {
+    setError(null);
+    setPending(provider);
+
+    try {
+      await signInWithOAuth(provider);
+      // The browser is now on its way to the provider
+    } catch (err) {
+      setError(authErrorMessage(err, 'Could not start signing in. Please try again.'));
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center mb-4">
+        <div className="flex-1 border-t border-gray-200"></div>
+        <span className="px-3 text-sm text-gray-500">or continue with</span>
+        <div className="flex-1 border-t border-gray-200"></div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {providers.map(({ provider, label }) => (
+          <button
+            key={provider}
+            type="button"
+            onClick={() => handleClick(provider)}
+            disabled={pending !== null}
+            className="w-full py-2 px-4 border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {pending === provider ? 'Redirecting...' : label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
 
 export function SignInForm() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [useMagicLink, setUseMagicLink] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const { signIn } = useAuth();
+  const { signIn, signInWithMagicLink } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setSuccess(null);
     setLoading(true);
     
     try {
-      await signIn(email, password);
+      if (useMagicLink) {
+        await signInWithMagicLink(email);
+        setSuccess('Check your email for a sign-in link.');
+      } else {
+        await signIn(email, password);
+      }
     } catch (err) {
-      setError('Failed to sign in. Please check your credentials.');
-      console.error(err);
+      setError(authErrorMessage(err, 'Failed to sign in. Please try again.'));
     } finally {
       setLoading(false);
     }
@@ -35,6 +97,12 @@ export function SignInForm() {
         </div>
       )}
       
+      {success && (
+        <div className="mb-4 p-3 bg-green-100 text-green-700 rounded-md">
+          {success}
+        </div>
+      )}
+      
       <form onSubmit={handleSubmit}>
         <div className="mb-4">
           <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
@@ -50,28 +118,51 @@ export function SignInForm() {
           />
         </div>
         
-        <div className="mb-6">
-          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
-            Password
-          </label>
-          <input
-            id="password"
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            required
-          />
-        </div>
+        {!useMagicLink && (
+          <div className="mb-6">
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <Link href="/auth/forgot-password" className="text-sm text-blue-600 hover:text-blue-800">
+                Forgot password?
+              </Link>
+            </div>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+        )}
         
         <button
           type="submit"
           disabled={loading}
           className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
         >
-          {loading ? 'Signing in...' : 'Sign In'}
+          {useMagicLink
+            ? loading ? 'Sending link...' : 'Email Me a Sign-In Link'
+            : loading ? 'Signing in...' : 'Sign In'}
         </button>
       </form>
+
+      <button
+        type="button"
+        onClick={() => {
+          setUseMagicLink(!useMagicLink);
+          setError(null);
+          setSuccess(null);
+        }}
+        className="mt-4 w-full text-sm text-blue-600 hover:text-blue-800"
+      >
+        {useMagicLink ? 'Sign in with a password instead' : 'Sign in with an email link instead'}
+      </button>
+
+      <OAuthButtons />
     </div>
   );
 }
@@ -104,8 +195,7 @@ export function SignUpForm() {
       setPassword('');
       setConfirmPassword('');
     } catch (err) {
-      setError('Failed to sign up. Please try again.');
-      console.error(err);
+      setError(authErrorMessage(err, 'Failed to sign up. Please try again.'));
     } finally {
       setLoading(false);
     }
@@ -178,6 +268,241 @@ export function SignUpForm() {
           {loading ? 'Signing up...' : 'Sign Up'}
         </button>
       </form>
+
+      <OAuthButtons />
+    </div>
+  );
+}
+
+export function ForgotPasswordForm() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { requestPasswordReset } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+    setLoading(true);
+
+    try {
+      await requestPasswordReset(email);
+      // Supabase answers the same whether or not the address has an account
+      setSuccess('If an account exists for this email, a link to reset your password is on its way.');
+    } catch (err) {
+      setError(authErrorMessage(err, 'Failed to send the reset link. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white rounded-lg shadow-md">
+      <h2 className="text-2xl font-bold mb-2 text-center">Reset Password</h2>
+      <p className="mb-6 text-center text-sm text-gray-600">
+        Enter your email and we&apos;ll send you a link to set a new password.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-100 text-green-700 rounded-md">
+          {success}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <div className="mb-6">
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+            Email
+          </label>
+          <input
+            id="email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {loading ? 'Sending...' : 'Send Reset Link'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+interface ResetPasswordFormProps {
+  onComplete?: () => void;
+}
+
+export function ResetPasswordForm({ onComplete }: ResetPasswordFormProps) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { updatePassword } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await updatePassword(password);
+      onComplete?.();
+    } catch (err) {
+      setError(authErrorMessage(err, 'Failed to update your password. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white rounded-lg shadow-md">
+      <h2 className="text-2xl font-bold mb-6 text-center">Set New Password</h2>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <div className="mb-4">
+          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+            New Password
+          </label>
+          <input
+            id="password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoComplete="new-password"
+            required
+          />
+        </div>
+
+        <div className="mb-6">
+          <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+            Confirm New Password
+          </label>
+          <input
+            id="confirmPassword"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoComplete="new-password"
+            required
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {loading ? 'Saving...' : 'Set Password'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export function ChangeEmailForm() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { user, updateEmail } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+
+    if (email.trim().toLowerCase() === user?.email.toLowerCase()) {
+      setError('This is already your email address.');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await updateEmail(email.trim());
+      setSuccess(
+        'Check your inbox to confirm the change. Your email stays the same until the change is confirmed.'
+      );
+      setEmail('');
+    } catch (err) {
+      setError(authErrorMessage(err, 'Failed to change your email. Please try again.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white rounded-lg shadow-md">
+      <h2 className="text-xl font-bold mb-2">Email Address</h2>
+      <p className="mb-4 text-sm text-gray-600">
+        Signed in as <span className="font-medium">{user?.email}</span>
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-4 p-3 bg-green-100 text-green-700 rounded-md">
+          {success}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        <div className="mb-4">
+          <label htmlFor="newEmail" className="block text-sm font-medium text-gray-700 mb-1">
+            New Email
+          </label>
+          <input
+            id="newEmail"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {loading ? 'Sending...' : 'Change Email'}
+        </button>
+      </form>
     </div>
   );
 }
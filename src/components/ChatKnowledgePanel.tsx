@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from './AuthContext';
+import type { KnowledgeBase } from '@/lib/knowledge';
+
+interface ChatKnowledgePanelProps {
+  chatId: string;
+}
+
+export default function ChatKnowledgePanel({ chatId }: ChatKnowledgePanelProps) {
+  const { user } = useAuth();
+  const [knowledgeBases, setKnowledgeBases] = useState<KnowledgeBase[]>([]);
+  // Knowledge bases the chat searches
+  const [attachedIds, setAttachedIds] = useState<string[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchKnowledgeBases = async () => {
+      try {
+        const [{ data: bases, error: basesError }, { data: links, error: linksError }] =
+          await Promise.all([
+            supabase
+              .from('knowledge_bases')
+              .select('*')
+              .eq('user_id', user.id)
+              .order('name', { ascending: true }),
+            supabase.from('chat_knowledge_bases').select('knowledge_base_id').eq('chat_id', chatId),
+          ]);
+
+        if (basesError) throw basesError;
+        if (linksError) throw linksError;
+        setKnowledgeBases(bases as KnowledgeBase[]);
+        setAttachedIds(links.map((link) => link.knowledge_base_id as string));
+      } catch (error) {
+        console.error('Error fetching knowledge bases:', error);
+      }
+    };
+
+    fetchKnowledgeBases();
+  }, [chatId, user]);
+
+  const handleToggle = async (knowledgeBaseId: string, attach: boolean) => {
+    if (!user) return;
+    setError(null);
+
+    const { error } = attach
+      ? await supabase
+          .from('chat_knowledge_bases')
+          .insert({ chat_id: chatId, knowledge_base_id: knowledgeBaseId, user_id: user.id })
+      : await supabase
+          .from('chat_knowledge_bases')
+          .delete()
+          .eq('chat_id', chatId)
+          .eq('knowledge_base_id', knowledgeBaseId);
+
+    if (error) {
+      console.error('Error updating chat knowledge bases:', error);
+      setError('Could not update the knowledge bases. Please try again.');
+      return;
+    }
+    setAttachedIds((prev) =>
+      attach ? [...prev, knowledgeBaseId] : prev.filter((id) => id !== knowledgeBaseId)
+    );
+  };
+
+  const attached = knowledgeBases.filter((knowledgeBase) => attachedIds.includes(knowledgeBase.id));
+
+  return (
+    <div className="mb-4 p-4 bg-gray-100 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-medium text-gray-700">Knowledge Bases</h3>
+        <button
+          onClick={() => setIsEditing((prev) => !prev)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {isEditing ? 'Done' : 'Edit'}
+        </button>
+      </div>
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+      {!isEditing ? (
+        <p className="text-sm text-gray-600">
+          {attached.length > 0
+            ? attached.map((knowledgeBase) => knowledgeBase.name).join(', ')
+            : 'None; replies use the model alone'}
+        </p>
+      ) : knowledgeBases.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No knowledge bases yet.{' '}
+          <Link href="/knowledge" className="text-blue-600 hover:text-blue-800">
+            Create one
+          </Link>
+        </p>
+      ) : (
+        <ul className="space-y-1 text-sm text-gray-700">
+          {knowledgeBases.map((knowledgeBase) => (
+            <li key={knowledgeBase.id}>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={attachedIds.includes(knowledgeBase.id)}
+                  onChange={(e) => handleToggle(knowledgeBase.id, e.target.checked)}
+                />
+                {knowledgeBase.name}
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
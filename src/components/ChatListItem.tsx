@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Chat } from '@/lib/supabaseClient';
+import { getRelativeTime } from '@/utils/formatTimestamp';
+
+interface ChatListItemProps {
+  chat: Chat;
+  onRename: (title: string) => Promise<void>;
+  onToggleTitleLock: () => Promise<void>;
+  onTogglePin: () => Promise<void>;
+  onToggleArchive: () => Promise<void>;
+  onDuplicate: () => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+export default function ChatListItem({
+  chat,
+  onRename,
+  onToggleTitleLock,
+  onTogglePin,
+  onToggleArchive,
+  onDuplicate,
+  onDelete,
+}: ChatListItemProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [title, setTitle] = useState(chat.title);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Runs one action at a time and keeps the row usable if it fails
+  const runAction = async (action: () => Promise<void>): Promise<boolean> => {
+    setIsBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error('Error updating chat:', error);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    if (await runAction(() => onRename(title.trim()))) {
+      setIsRenaming(false);
+    }
+  };
+
+  const actionClassName = 'text-xs text-gray-500 hover:text-gray-900 disabled:opacity-50';
+
+  return (
+    <li className={`px-4 py-4 sm:px-6 hover:bg-gray-50 ${chat.archived_at ? 'opacity-60' : ''}`}>
+      <div className="flex items-center justify-between gap-4">
+        {isRenaming ? (
+          <form onSubmit={handleRename} className="flex-1 flex gap-2">
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="flex-1 p-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+            <button type="submit" disabled={!title.trim() || isBusy} className={actionClassName}>
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setTitle(chat.title);
+                setIsRenaming(false);
+              }}
+              className={actionClassName}
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <Link href={`/chat/${chat.id}`} className="flex-1 min-w-0">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-blue-600 truncate">
+                {chat.pinned_at && <span className="mr-1" aria-label="Pinned">📌</span>}
+                {chat.title}
+                {chat.title_locked && <span className="ml-1" aria-label="Title locked">🔒</span>}
+                {chat.archived_at && <span className="ml-2 text-xs text-gray-500">(archived)</span>}
+              </p>
+              <p className="text-xs text-gray-500 ml-2 shrink-0">
+                {getRelativeTime(chat.created_at)}
+              </p>
+            </div>
+          </Link>
+        )}
+
+        {isConfirmingDelete ? (
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-red-600">Delete this chat and its messages?</span>
+            <button
+              onClick={() => runAction(onDelete)}
+              disabled={isBusy}
+              className="text-red-600 font-medium hover:text-red-800 disabled:opacity-50"
+            >
+              Delete
+            </button>
+            <button onClick={() => setIsConfirmingDelete(false)} className={actionClassName}>
+              Cancel
+            </button>
+          </div>
+        ) : (
+          !isRenaming && (
+            <div className="flex items-center gap-3 shrink-0">
+              <button
+                onClick={() => {
+                  setTitle(chat.title);
+                  setIsRenaming(true);
+                }}
+                disabled={isBusy}
+                className={actionClassName}
+              >
+                Rename
+              </button>
+              <button onClick={() => runAction(onToggleTitleLock)} disabled={isBusy} className={actionClassName}>
+                {chat.title_locked ? 'Unlock title' : 'Lock title'}
+              </button>
+              <button onClick={() => runAction(onTogglePin)} disabled={isBusy} className={actionClassName}>
+                {chat.pinned_at ? 'Unpin' : 'Pin'}
+              </button>
+              <button onClick={() => runAction(onToggleArchive)} disabled={isBusy} className={actionClassName}>
+                {chat.archived_at ? 'Unarchive' : 'Archive'}
+              </button>
+              <button onClick={() => runAction(onDuplicate)} disabled={isBusy} className={actionClassName}>
+                Duplicate
+              </button>
+              <button
+                onClick={() => setIsConfirmingDelete(true)}
+                disabled={isBusy}
+                className="text-xs text-red-500 hover:text-red-700 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          )
+        )}
+      </div>
+    </li>
+  );
+}
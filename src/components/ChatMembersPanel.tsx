@@ -0,0 +1,271 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  ChatInvitation,
+  ChatMember,
+  ChatRole,
+  INVITABLE_ROLES,
+  InvitableRole,
+  ROLE_LABELS,
+} from '@/lib/chatMembers';
+
+interface ChatMembersPanelProps {
+  chatId: string;
+  userId: string;
+  // The signed-in user's role
+  role: ChatRole;
+  members: ChatMember[];
+  // Members who have the chat open right now
+  presentIds: Set<string>;
+  // Called after the member list changed, to load it again
+  onChange: () => void;
+  // Called once the user has left the chat
+  onLeave: () => void;
+}
+
+export default function ChatMembersPanel({
+  chatId,
+  userId,
+  role,
+  members,
+  presentIds,
+  onChange,
+  onLeave,
+}: ChatMembersPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [invitations, setInvitations] = useState<ChatInvitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InvitableRole>('editor');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isOwner = role === 'owner';
+
+  // Only owners see the invitations of the chat
+  useEffect(() => {
+    if (!isOpen || !isOwner) return;
+
+    const fetchInvitations = async () => {
+      const { data, error } = await supabase
+        .from('chat_invitations')
+        .select('*')
+        .eq('chat_id', chatId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching invitations:', error);
+        setError('Could not load the invitations.');
+        return;
+      }
+      setInvitations(data as ChatInvitation[]);
+    };
+
+    fetchInvitations();
+  }, [isOpen, isOwner, chatId]);
+
+  // Runs one change at a time and shows why it failed
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating chat members:', error);
+      setError(failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = email.trim().toLowerCase();
+    if (!address) return;
+
+    if (members.some((member) => member.email === address)) {
+      setError(`${address} is already a member.`);
+      return;
+    }
+    if (invitations.some((invitation) => invitation.email === address)) {
+      setError(`${address} has already been invited.`);
+      return;
+    }
+
+    await runAction(async () => {
+      const { data, error } = await supabase
+        .from('chat_invitations')
+        .insert({ chat_id: chatId, email: address, role: inviteRole, invited_by: userId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setInvitations((prev) => [...prev, data as ChatInvitation]);
+      setEmail('');
+    }, 'Could not send the invitation. Please try again.');
+  };
+
+  const handleRevoke = (invitationId: string) =>
+    runAction(async () => {
+      const { error } = await supabase.from('chat_invitations').delete().eq('id', invitationId);
+      if (error) throw error;
+      setInvitations((prev) => prev.filter((invitation) => invitation.id !== invitationId));
+    }, 'Could not revoke the invitation. Please try again.');
+
+  const handleChangeRole = (memberId: string, newRole: InvitableRole) =>
+    runAction(async () => {
+      const { error } = await supabase
+        .from('chat_members')
+        .update({ role: newRole })
+        .eq('chat_id', chatId)
+        .eq('user_id', memberId);
+      if (error) throw error;
+      onChange();
+    }, 'Could not change the role. Please try again.');
+
+  // Removing yourself is leaving
+  const handleRemove = (memberId: string) =>
+    runAction(async () => {
+      const { error } = await supabase
+        .from('chat_members')
+        .delete()
+        .eq('chat_id', chatId)
+        .eq('user_id', memberId);
+      if (error) throw error;
+      if (memberId === userId) {
+        onLeave();
+      } else {
+        onChange();
+      }
+    }, 'Could not remove the member. Please try again.');
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm text-blue-600 hover:text-blue-800"
+      >
+        {isOpen ? 'Close members' : `Members (${members.length})`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-96 p-4 bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+          {error && <div className="mb-3 p-2 bg-red-100 text-red-700 rounded-md">{error}</div>}
+
+          <ul className="mb-3 divide-y divide-gray-100">
+            {members.map((member) => (
+              <li key={member.user_id} className="py-2 flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2 min-w-0">
+                  <span
+                    className={`inline-block h-2 w-2 shrink-0 rounded-full ${
+                      presentIds.has(member.user_id) ? 'bg-green-500' : 'bg-gray-300'
+                    }`}
+                    title={presentIds.has(member.user_id) ? 'Viewing now' : 'Away'}
+                  />
+                  <span className="truncate text-gray-900">
+                    {member.email}
+                    {member.user_id === userId && ' (you)'}
+                  </span>
+                </span>
+                <span className="flex items-center gap-2 shrink-0">
+                  {isOwner && member.role !== 'owner' ? (
+                    <select
+                      value={member.role}
+                      onChange={(e) =>
+                        handleChangeRole(member.user_id, e.target.value as InvitableRole)
+                      }
+                      disabled={isSaving}
+                      className="p-1 border border-gray-300 rounded-md bg-white text-xs"
+                      aria-label={`Role of ${member.email}`}
+                    >
+                      {INVITABLE_ROLES.map((option) => (
+                        <option key={option} value={option}>
+                          {ROLE_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+                  )}
+                  {member.role !== 'owner' && (isOwner || member.user_id === userId) && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(member.user_id)}
+                      disabled={isSaving}
+                      className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      {member.user_id === userId ? 'Leave' : 'Remove'}
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {isOwner && (
+            <>
+              {invitations.length > 0 && (
+                <div className="mb-3">
+                  <h4 className="mb-1 text-xs font-medium text-gray-700">Invited</h4>
+                  <ul className="space-y-1">
+                    {invitations.map((invitation) => (
+                      <li key={invitation.id} className="flex items-center justify-between gap-2">
+                        <span className="truncate text-gray-600">
+                          {invitation.email} · {ROLE_LABELS[invitation.role]}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => handleRevoke(invitation.id)}
+                          disabled={isSaving}
+                          className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Revoke
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <form onSubmit={handleInvite} className="flex gap-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Email address"
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as InvitableRole)}
+                  className="p-1 border border-gray-300 rounded-md bg-white"
+                  aria-label="Role of the invited person"
+                >
+                  {INVITABLE_ROLES.map((option) => (
+                    <option key={option} value={option}>
+                      {ROLE_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={isSaving || !email.trim()}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50"
+                >
+                  Invite
+                </button>
+              </form>
+              <p className="mt-2 text-xs text-gray-500">
+                The invitation shows on their chat list once they sign in with this address.
+                Editors can send messages and change the prompt and settings; viewers can only
+                read.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, User } from '@/lib/supabaseClient';
+
+// Someone with the chat open, as tracked by Supabase Realtime presence
+export type PresentUser = {
+  userId: string;
+  typing: boolean;
+};
+
+// A present user who is a member of the chat, with the email from the
+// member list; a payload could claim any email
+export type PresentMember = PresentUser & { email: string };
+
+type PresencePayload = Omit<PresentUser, 'userId'>;
+
+// How long after the last keystroke someone still shows as typing
+const TYPING_TIMEOUT_MS = 3000;
+
+/**
+ * Tracks who has a chat open and who is typing in it. Each browser tab of
+ * a user joins under the user's id, so a user shows once however many tabs
+ * they have open. The channel is private: only members of the chat can
+ * join it (see supabase/migrations/019_chat_members.sql).
+ * @param chatId Chat being viewed
+ * @param user The signed-in user
+ * @returns Everyone with the chat open, the user included, and a setter for
+ * the user's own typing state
+ */
+export function useChatPresence(chatId: string, user: User | null) {
+  const [present, setPresent] = useState<PresentUser[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingRef = useRef(false);
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase.channel(`presence:${chatId}`, {
+      config: { private: true, presence: { key: user.id } },
+    });
+    channelRef.current = channel;
+    typingRef.current = false;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresencePayload>();
+        setPresent(
+          Object.entries(state).map(([userId, tabs]) => ({
+            userId,
+            typing: tabs.some((tab) => tab.typing),
+          }))
+        );
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channel.track({ typing: typingRef.current });
+        }
+      });
+
+    return () => {
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+      channelRef.current = null;
+      setPresent([]);
+      supabase.removeChannel(channel);
+    };
+  }, [chatId, user]);
+
+  // Only changes are sent, not every keystroke
+  const track = useCallback(
+    (typing: boolean) => {
+      const channel = channelRef.current;
+      if (!channel || !user || typingRef.current === typing) return;
+      typingRef.current = typing;
+      channel.track({ typing });
+    },
+    [user]
+  );
+
+  // Typing stops showing once the user sends, or pauses for a few seconds
+  const setTyping = useCallback(
+    (typing: boolean) => {
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+      if (typing) {
+        typingTimerRef.current = setTimeout(() => track(false), TYPING_TIMEOUT_MS);
+      }
+      track(typing);
+    },
+    [track]
+  );
+
+  return { present, setTyping };
+}
+
+interface ChatPresenceProps {
+  // Everyone else with the chat open
+  others: PresentMember[];
+}
+
+// Initials of the other people viewing the chat, for the chat header
+export default function ChatPresence({ others }: ChatPresenceProps) {
+  if (others.length === 0) return null;
+
+  return (
+    <div className="flex -space-x-1" title={`Also viewing: ${others.map((other) => other.email).join(', ')}`}>
+      {others.map((other) => (
+        <span
+          key={other.userId}
+          className="inline-flex items-center justify-center h-6 w-6 rounded-full bg-indigo-500 text-white text-xs font-medium ring-2 ring-white uppercase"
+        >
+          {other.email.charAt(0) || '?'}
+        </span>
+      ))}
+    </div>
+  );
+}
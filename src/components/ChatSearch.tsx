@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { SearchResult, splitSnippet } from '@/lib/search';
+import { getRelativeTime } from '@/utils/formatTimestamp';
+
+// Wait for a pause in typing before querying
+const SEARCH_DELAY_MS = 300;
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitSnippet(snippet).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-200 rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function ChatSearch() {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults(null);
+      setError(null);
+      return;
+    }
+
+    // Responses to earlier keystrokes are dropped
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, {
+          signal: controller.signal,
+        });
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Search failed');
+        setResults(body.results as SearchResult[]);
+        setError(null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error searching chats:', error);
+        setError('Search failed. Please try again.');
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  return (
+    <div className="mb-6">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search chats and messages..."
+        className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      {isSearching && <p className="mt-2 text-sm text-gray-500">Searching...</p>}
+
+      {results && !isSearching && (
+        <ul className="mt-2 bg-white shadow rounded-lg divide-y divide-gray-200">
+          {results.length === 0 ? (
+            <li className="px-4 py-3 text-sm text-gray-500 text-center">No matches found.</li>
+          ) : (
+            results.map((result) => (
+              <li key={result.message_id || result.chat_id}>
+                <Link
+                  href={
+                    result.message_id
+                      ? `/chat/${result.chat_id}?message=${result.message_id}`
+                      : `/chat/${result.chat_id}`
+                  }
+                  className="block px-4 py-3 hover:bg-gray-50"
+                >
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-blue-600 truncate">
+                      {/* Title matches carry the highlighted title as their snippet */}
+                      {result.message_id ? result.chat_title : <Snippet snippet={result.snippet} />}
+                    </p>
+                    <p className="text-xs text-gray-500 ml-2 shrink-0">
+                      {result.message_role === 'user'
+                        ? 'You · '
+                        : result.message_role === 'assistant'
+                          ? 'Assistant · '
+                          : result.message_role === 'tool'
+                            ? 'Tool · '
+                            : ''}
+                      {getRelativeTime(result.created_at)}
+                    </p>
+                  </div>
+                  {result.message_id && (
+                    <p className="mt-1 text-sm text-gray-600 line-clamp-2">
+                      <Snippet snippet={result.snippet} />
+                    </p>
+                  )}
+                </Link>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
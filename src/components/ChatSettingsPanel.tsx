@@ -0,0 +1,281 @@
+'use client';
+
+import { useState } from 'react';
+import type { ProviderInfo } from '@/lib/ai/types';
+import {
+  ChatSettings,
+  createChatSettingsSchema,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+} from '@/lib/chatSettings';
+
+interface ChatSettingsPanelProps {
+  settings: ChatSettings;
+  onSave: (settings: ChatSettings) => Promise<void>;
+  // Shows the settings without an Edit button
+  readOnly?: boolean;
+}
+
+// Form fields are kept as strings so empty inputs can mean "provider default"
+type SettingsForm = {
+  model: string;
+  temperature: string;
+  top_p: string;
+  max_tokens: string;
+  stop: string;
+  tools_enabled: boolean;
+};
+
+function toForm(settings: ChatSettings): SettingsForm {
+  return {
+    model: settings.model ?? '',
+    temperature: settings.temperature?.toString() ?? '',
+    top_p: settings.top_p?.toString() ?? '',
+    max_tokens: settings.max_tokens?.toString() ?? '',
+    stop: settings.stop?.join('\n') ?? '',
+    tools_enabled: settings.tools_enabled,
+  };
+}
+
+function fromForm(form: SettingsForm): ChatSettings {
+  const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+  const stop = form.stop.split('\n').filter((sequence) => sequence !== '');
+
+  return {
+    model: form.model.trim() || null,
+    temperature: toNumber(form.temperature),
+    top_p: toNumber(form.top_p),
+    max_tokens: toNumber(form.max_tokens),
+    stop: stop.length > 0 ? stop : null,
+    tools_enabled: form.tools_enabled,
+  };
+}
+
+export default function ChatSettingsPanel({
+  settings,
+  onSave,
+  readOnly = false,
+}: ChatSettingsPanelProps) {
+  const [form, setForm] = useState<SettingsForm>(toForm(settings));
+  const [providerInfo, setProviderInfo] = useState<ProviderInfo | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<keyof SettingsForm, string>>>({});
+
+  const handleEdit = async () => {
+    setForm(toForm(settings));
+    setError(null);
+    setFieldErrors({});
+    setIsEditing(true);
+
+    try {
+      const response = await fetch('/api/models');
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Failed to load models');
+      setProviderInfo(body as ProviderInfo);
+    } catch (error) {
+      console.error('Error loading models:', error);
+      setError('Could not load the models offered by the AI provider.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!providerInfo) return;
+
+    setError(null);
+    const settings = fromForm(form);
+    const result = createChatSettingsSchema(providerInfo).safeParse(settings);
+    if (!result.success) {
+      const errors = result.error.flatten().fieldErrors;
+      setFieldErrors(
+        Object.fromEntries(
+          Object.entries(errors).map(([field, messages]) => [field, messages?.[0]])
+        )
+      );
+      return;
+    }
+
+    setFieldErrors({});
+    setIsSaving(true);
+    try {
+      await onSave(settings);
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error saving chat settings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="mb-4 p-4 bg-gray-100 rounded-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-sm font-medium text-gray-700">Model Settings</h3>
+          {!readOnly && (
+            <button
+              onClick={handleEdit}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Edit
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600">
+          {settings.model || 'Default model'} · temperature{' '}
+          {settings.temperature ?? DEFAULT_TEMPERATURE} · max tokens{' '}
+          {settings.max_tokens ?? DEFAULT_MAX_TOKENS}
+          {typeof settings.top_p === 'number' && ` · top p ${settings.top_p}`}
+          {settings.stop?.length ? ` · ${settings.stop.length} stop sequence(s)` : ''}
+          {settings.tools_enabled && ' · tools on'}
+        </p>
+      </div>
+    );
+  }
+
+  const inputClassName =
+    'w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const capabilities = providerInfo?.capabilities;
+
+  const renderError = (field: keyof SettingsForm) =>
+    fieldErrors[field] && <p className="mt-1 text-xs text-red-600">{fieldErrors[field]}</p>;
+
+  return (
+    <div className="mb-4 p-4 bg-gray-100 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-sm font-medium text-gray-700">Edit Model Settings</h3>
+        <button
+          onClick={() => setIsEditing(false)}
+          className="text-sm text-gray-600 hover:text-gray-800"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-2 p-2 text-sm bg-red-100 text-red-700 rounded-md">{error}</div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <label className="col-span-2">
+          <span className="block text-gray-700 mb-1">Model</span>
+          {providerInfo && providerInfo.models.length > 0 ? (
+            <select
+              value={form.model}
+              onChange={(e) => setForm({ ...form, model: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">Default ({providerInfo.defaultModel})</option>
+              {providerInfo.models.map((model) => (
+                <option key={model} value={model}>
+                  {model}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={form.model}
+              onChange={(e) => setForm({ ...form, model: e.target.value })}
+              placeholder={providerInfo ? `Default (${providerInfo.defaultModel})` : 'Loading models...'}
+              className={inputClassName}
+            />
+          )}
+          {renderError('model')}
+        </label>
+
+        <label>
+          <span className="block text-gray-700 mb-1">Temperature</span>
+          <input
+            type="number"
+            step="0.1"
+            min={capabilities?.temperature.min}
+            max={capabilities?.temperature.max}
+            value={form.temperature}
+            onChange={(e) => setForm({ ...form, temperature: e.target.value })}
+            placeholder={DEFAULT_TEMPERATURE.toString()}
+            className={inputClassName}
+          />
+          {renderError('temperature')}
+        </label>
+
+        <label>
+          <span className="block text-gray-700 mb-1">Top P</span>
+          <input
+            type="number"
+            step="0.05"
+            min={0}
+            max={1}
+            value={form.top_p}
+            onChange={(e) => setForm({ ...form, top_p: e.target.value })}
+            placeholder="Default"
+            disabled={capabilities ? !capabilities.topP : false}
+            className={`${inputClassName} disabled:opacity-50`}
+          />
+          {renderError('top_p')}
+        </label>
+
+        <label className="col-span-2">
+          <span className="block text-gray-700 mb-1">
+            Max tokens{capabilities && ` (up to ${capabilities.maxOutputTokens})`}
+          </span>
+          <input
+            type="number"
+            step="1"
+            min={1}
+            max={capabilities?.maxOutputTokens}
+            value={form.max_tokens}
+            onChange={(e) => setForm({ ...form, max_tokens: e.target.value })}
+            placeholder={DEFAULT_MAX_TOKENS.toString()}
+            className={inputClassName}
+          />
+          {renderError('max_tokens')}
+        </label>
+
+        <label className="col-span-2">
+          <span className="block text-gray-700 mb-1">
+            Stop sequences (one per line
+            {capabilities && `, up to ${capabilities.maxStopSequences}`})
+          </span>
+          <textarea
+            value={form.stop}
+            onChange={(e) => setForm({ ...form, stop: e.target.value })}
+            className={`${inputClassName} min-h-[60px]`}
+          />
+          {renderError('stop')}
+        </label>
+
+        <label className="col-span-2 flex items-start gap-2">
+          <input
+            type="checkbox"
+            checked={form.tools_enabled}
+            onChange={(e) => setForm({ ...form, tools_enabled: e.target.checked })}
+            disabled={capabilities ? !capabilities.tools : false}
+            className="mt-1 disabled:opacity-50"
+          />
+          <span className="text-gray-700">
+            Allow tools
+            <span className="block text-xs text-gray-500">
+              {capabilities && !capabilities.tools
+                ? 'Not supported by this provider'
+                : 'The model may use a calculator, check the time and read your other chats'}
+            </span>
+          </span>
+        </label>
+        {renderError('tools_enabled')}
+      </div>
+
+      <div className="mt-2 flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !providerInfo}
+          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,51 +1,235 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { supabase, Message, Chat } from '@/lib/supabaseClient';
+import { readChatEvents } from '@/lib/chatStream';
 import { useAuth } from './AuthContext';
 import MessageBubble from './MessageBubble';
 import SystemPromptEditor from './SystemPromptEditor';
+import ChatSettingsPanel from './ChatSettingsPanel';
+import ContextUsageMeter from './ContextUsageMeter';
+import ExportLinks from './ExportLinks';
+import QuotaIndicator from './QuotaIndicator';
+import SharePanel from './SharePanel';
+import AttachmentChip from './AttachmentChip';
+import ChatKnowledgePanel from './ChatKnowledgePanel';
+import ConnectionIndicator, { ConnectionStatus } from './ConnectionIndicator';
+import ChatMembersPanel from './ChatMembersPanel';
+import ChatPresence, { PresentMember, useChatPresence } from './ChatPresence';
+import type { ContextUsage } from '@/lib/chatContext';
+import type { QuotaStatus } from '@/lib/quotas';
+import { ChatSettings } from '@/lib/chatSettings';
+import type { ChatRequest } from '@/lib/chatRequest';
+import { getActivePath, getPathTo, groupChildren, parentKey } from '@/lib/messageTree';
+import { DEFAULT_SYSTEM_PROMPT } from '@/lib/prompts';
+import { ChatMember, hasChatRole } from '@/lib/chatMembers';
+import {
+  ACCEPTED_EXTENSIONS,
+  ATTACHMENT_INFO_COLUMNS,
+  AttachmentInfo,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+} from '@/lib/attachments';
+
+// Messages fetched per page; older pages load as the user scrolls up
+const MESSAGE_PAGE_SIZE = 100;
+// How close to the top or bottom of the list, in pixels, counts as being there
+const SCROLL_EDGE = 120;
 
 interface ChatWindowProps {
   chatId: string;
+  // Message to scroll to and highlight once the chat has loaded
+  focusMessageId?: string | null;
 }
 
-export default function ChatWindow({ chatId }: ChatWindowProps) {
+export default function ChatWindow({ chatId, focusMessageId }: ChatWindowProps) {
   const { user } = useAuth();
+  const router = useRouter();
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [chat, setChat] = useState<Chat | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [members, setMembers] = useState<ChatMember[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Whether new content should scroll into view; false once the user scrolls up
+  const isAtBottomRef = useRef(true);
+  // Distance from the bottom to restore once older messages are added above
+  const scrollAnchorRef = useRef<number | null>(null);
+  // Oldest loaded message, where the next older page starts
+  const oldestRef = useRef<Message | null>(null);
+  // Newest saved message seen, where a catch-up after a reconnect starts
+  const newestRef = useRef<Message | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const [hasOlder, setHasOlder] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const loadingOlderRef = useRef(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [draft, setDraft] = useState<Message | null>(null);
+  const [contextUsage, setContextUsage] = useState<ContextUsage | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  // Why the last request failed, shown above the input
+  const [error, setError] = useState<string | null>(null);
+  // The failed /api/chat request; retrying sends it again with the same key
+  const [failedRequest, setFailedRequest] = useState<ChatRequest | null>(null);
+  // Sent messages shown before the server has saved them, by client key
+  const [sendStatus, setSendStatus] = useState<Record<string, 'pending' | 'failed'>>({});
+  // Chosen child per parent; unset levels follow the newest branch
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const focusedIdRef = useRef<string | null>(null);
+  // Files of sent messages, and uploads waiting for the next message
+  const [attachments, setAttachments] = useState<AttachmentInfo[]>([]);
+  const [pendingAttachments, setPendingAttachments] = useState<AttachmentInfo[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Aborts the reply being streamed
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // The draft takes part in the tree so it shows in place while it streams
+  const { activePath, children } = useMemo(() => {
+    const treeMessages = draft ? addMessage(messages, draft) : messages;
+    return {
+      activePath: getActivePath(treeMessages, selections),
+      children: groupChildren(treeMessages),
+    };
+  }, [messages, draft, selections]);
+  const leafId = activePath.length > 0 ? activePath[activePath.length - 1].id : null;
+
+  // Only the bubbles in and near the view are mounted; their heights are
+  // measured as they render
+  const virtualizer = useVirtualizer({
+    count: activePath.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 120,
+    getItemKey: (index) => activePath[index].id,
+    overscan: 5,
+    paddingStart: 16,
+    paddingEnd: 16,
+  });
+  // A message the server never saved can't be replied to; it has to be
+  // retried or discarded first
+  const hasUnsent = Object.values(sendStatus).includes('failed');
+
+  const role = members.find((member) => member.user_id === user?.id)?.role ?? null;
+  // Viewers read along; only owners and editors can add to the chat
+  const canEdit = hasChatRole(role, 'editor');
+  const { present, setTyping } = useChatPresence(chatId, user);
+
+  const membersById = useMemo(
+    () => new Map(members.map((member) => [member.user_id, member])),
+    [members]
+  );
+  // Names come from the member list, never from what a client announced
+  const others: PresentMember[] = present.flatMap((person) => {
+    const member = membersById.get(person.userId);
+    return member && person.userId !== user?.id ? [{ ...person, email: member.email }] : [];
+  });
+  const typingNames = others.filter((person) => person.typing).map((person) => person.email);
+  // Authors are shown once someone else could have written a message
+  const authorOf = (message: Message): string | undefined => {
+    if (message.role !== 'user' || members.length < 2) return undefined;
+    if (message.user_id === user?.id) return 'You';
+    return (message.user_id && membersById.get(message.user_id)?.email) || 'Former member';
+  };
+
+  const attachmentsByMessage = useMemo(() => {
+    const byMessage = new Map<string, AttachmentInfo[]>();
+    for (const attachment of attachments) {
+      const messageId = attachment.message_id!;
+      byMessage.set(messageId, [...(byMessage.get(messageId) || []), attachment]);
+    }
+    return byMessage;
+  }, [attachments]);
+
+  const fetchContextUsage = useCallback(async (branchLeafId: string | null) => {
+    try {
+      const query = branchLeafId ? `?leafId=${branchLeafId}` : '';
+      const response = await fetch(`/api/chats/${chatId}/context${query}`);
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error);
+      setContextUsage(body.usage as ContextUsage);
+    } catch (error) {
+      console.error('Error fetching context usage:', error);
+    }
+  }, [chatId]);
+
+  const fetchMembers = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('chat_members')
+      .select('*')
+      .eq('chat_id', chatId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching chat members:', error);
+      return;
+    }
+    setMembers(data as ChatMember[]);
+  }, [chatId]);
+
+  const fetchQuota = useCallback(async () => {
+    try {
+      const response = await fetch('/api/quota');
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error);
+      setQuota(body as QuotaStatus);
+    } catch (error) {
+      console.error('Error fetching quota:', error);
+    }
+  }, []);
 
   // Fetch chat and messages
   useEffect(() => {
     if (!user || !chatId) return;
 
+    // Uploads belong to the chat they were made in
+    setPendingAttachments([]);
+    setConnectionStatus('connecting');
+    newestRef.current = null;
+    // Whether the first load is done, so later changes can be caught up on
+    let loaded = false;
+    let active = true;
+
+    const noteNewest = (rows: Message[]) => {
+      for (const row of rows) {
+        if (!newestRef.current || isNewer(row, newestRef.current)) newestRef.current = row;
+      }
+    };
+
     const fetchChat = async () => {
       setIsLoading(true);
       try {
-        // Fetch chat details
+        // Fetch chat details; RLS lets members read chats shared with them
         const { data: chatData, error: chatError } = await supabase
           .from('chats')
           .select('*')
           .eq('id', chatId)
-          .eq('user_id', user.id)
           .single();
 
         if (chatError) throw chatError;
         setChat(chatData as Chat);
+        await fetchMembers();
 
-        // Fetch messages
-        const { data: messagesData, error: messagesError } = await supabase
-          .from('messages')
-          .select('*')
+        // Fetch the newest page of messages; older ones load on scroll-up
+        const page = await fetchMessagePage(chatId, null);
+        oldestRef.current = page[0] ?? null;
+        noteNewest(page);
+        isAtBottomRef.current = true;
+        setMessages(page);
+        setHasOlder(page.length === MESSAGE_PAGE_SIZE);
+
+        const { data: attachmentsData, error: attachmentsError } = await supabase
+          .from('attachments')
+          .select(ATTACHMENT_INFO_COLUMNS)
           .eq('chat_id', chatId)
+          .not('message_id', 'is', null)
           .order('created_at', { ascending: true });
 
-        if (messagesError) throw messagesError;
-        setMessages(messagesData as Message[]);
+        if (attachmentsError) throw attachmentsError;
+        setAttachments(attachmentsData as AttachmentInfo[]);
+        loaded = true;
       } catch (error) {
         console.error('Error fetching chat:', error);
       } finally {
@@ -53,11 +237,32 @@ export default function ChatWindow({ chatId }: ChatWindowProps) {
       }
     };
 
+    // Changes made while the channel was down never arrive as events, so
+    // after a reconnect the chat and any newer messages are fetched instead
+    const catchUp = async () => {
+      try {
+        const [{ data: chatData, error: chatError }, newer] = await Promise.all([
+          supabase.from('chats').select('*').eq('id', chatId).maybeSingle(),
+          fetchMessagesAfter(chatId, newestRef.current),
+          fetchMembers(),
+        ]);
+
+        if (chatError) throw chatError;
+        if (!active) return;
+        setChat(chatData as Chat | null);
+        noteNewest(newer);
+        setMessages((prev) => newer.reduce(putMessage, prev));
+      } catch (error) {
+        console.error('Error catching up on chat changes:', error);
+      }
+    };
+
     fetchChat();
 
-    // Subscribe to new messages
-    const messagesSubscription = supabase
-      .channel(`messages:chat_id=eq.${chatId}`)
+    // Keep the chat in sync with changes made elsewhere, e.g. in another tab.
+    // Postgres can't filter DELETE events, so those are matched by id here.
+    const chatChannel = supabase
+      .channel(`chat:${chatId}`)
       .on(
         'postgres_changes',
         {
@@ -67,96 +272,504 @@ export default function ChatWindow({ chatId }: ChatWindowProps) {
           filter: `chat_id=eq.${chatId}`,
         },
         (payload) => {
+          // The saved row replaces the stand-in kept for a stopped reply
           const newMessage = payload.new as Message;
-          setMessages((prev) => [...prev, newMessage]);
+          noteNewest([newMessage]);
+          setMessages((prev) => putMessage(prev, newMessage));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          const updated = payload.new as Message;
+          setMessages((prev) => replaceMessage(prev, updated));
+        }
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'messages' }, (payload) => {
+        // Replies below a deleted message are deleted with it, each with its
+        // own event
+        const deletedId = (payload.old as Partial<Message>).id;
+        setMessages((prev) => prev.filter((message) => message.id !== deletedId));
+      })
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'chats', filter: `id=eq.${chatId}` },
+        (payload) => {
+          setChat(payload.new as Chat);
         }
       )
-      .subscribe();
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'chats' }, (payload) => {
+        if ((payload.old as Partial<Chat>).id === chatId) setChat(null);
+      })
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'chat_members', filter: `chat_id=eq.${chatId}` },
+        () => fetchMembers()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'chat_members', filter: `chat_id=eq.${chatId}` },
+        () => fetchMembers()
+      )
+      // Deletes carry the primary key, which includes the chat
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'chat_members' }, (payload) => {
+        const removed = payload.old as Partial<ChatMember>;
+        if (removed.chat_id !== chatId) return;
+        if (removed.user_id === user.id) {
+          setChat(null);
+        } else {
+          fetchMembers();
+        }
+      })
+      .subscribe((status) => {
+        if (!active) return;
+        if (status === 'SUBSCRIBED') {
+          setConnectionStatus('connected');
+          // Before the first load finishes, it picks up whatever came before
+          if (loaded) catchUp();
+        } else {
+          // The client keeps trying to rejoin
+          setConnectionStatus('reconnecting');
+        }
+      });
 
     return () => {
-      supabase.removeChannel(messagesSubscription);
+      active = false;
+      supabase.removeChannel(chatChannel);
     };
-  }, [chatId, user]);
+  }, [chatId, user, fetchMembers]);
+
+  // Adds the page before the oldest loaded message above the ones shown
+  const loadOlderMessages = useCallback(async () => {
+    const cursor = oldestRef.current;
+    if (!cursor || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(chatId, cursor);
+      // Another chat was opened meanwhile
+      if (oldestRef.current !== cursor) return;
 
-  // Scroll to bottom when messages change
+      const container = scrollRef.current;
+      if (container) {
+        scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+      }
+      oldestRef.current = page[0] ?? cursor;
+      setMessages((prev) => [...page, ...prev]);
+      setHasOlder(page.length === MESSAGE_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching older messages:', error);
+    } finally {
+      loadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [chatId]);
+
+  // Measure the branch on screen once no reply is streaming into it and it
+  // ends in a saved message
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (!user || isProcessing || hasUnsent) return;
+    fetchContextUsage(leafId);
+  }, [user, leafId, isProcessing, hasUnsent, fetchContextUsage]);
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newMessage.trim() || !user || !chatId || isProcessing) return;
+  // Refresh the remaining quota after every reply
+  useEffect(() => {
+    if (!user || isProcessing) return;
+    fetchQuota();
+  }, [user, isProcessing, fetchQuota]);
+
+  // Show the branch holding the focused message, loading older pages until
+  // it is found
+  useEffect(() => {
+    if (!focusMessageId || focusedIdRef.current === focusMessageId) return;
+    const path = getPathTo(messages, focusMessageId);
+    if (path.length === 0) {
+      if (hasOlder && !isLoadingOlder) loadOlderMessages();
+      return;
+    }
+
+    focusedIdRef.current = focusMessageId;
+    setSelections((prev) => ({
+      ...prev,
+      ...Object.fromEntries(path.map((message) => [parentKey(message.parent_id), message.id])),
+    }));
+    setHighlightedId(focusMessageId);
+  }, [messages, focusMessageId, hasOlder, isLoadingOlder, loadOlderMessages]);
 
+  // Keep the view where it was when older messages are added above it
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container || scrollAnchorRef.current === null) return;
+    container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+    scrollAnchorRef.current = null;
+  }, [activePath]);
+
+  // Follow the end of the branch as it changes or the draft grows, but only
+  // while the user is at the bottom. A highlighted message is shown instead.
+  useEffect(() => {
+    if (isLoading) return;
+    if (highlightedId) {
+      const index = activePath.findIndex((message) => message.id === highlightedId);
+      if (index !== -1) virtualizer.scrollToIndex(index, { align: 'center' });
+    } else if (isAtBottomRef.current && activePath.length > 0) {
+      virtualizer.scrollToIndex(activePath.length - 1, { align: 'end' });
+    }
+  }, [activePath, highlightedId, isLoading, virtualizer]);
+
+  // A branch too short to scroll can't be scrolled up to load more
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (isLoading || !hasOlder || isLoadingOlder || !container) return;
+    if (container.scrollHeight <= container.clientHeight) loadOlderMessages();
+  }, [activePath, isLoading, hasOlder, isLoadingOlder, loadOlderMessages]);
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container) return;
+    isAtBottomRef.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight < SCROLL_EDGE;
+    if (hasOlder && container.scrollTop < SCROLL_EDGE) loadOlderMessages();
+  };
+
+  const selectBranch = (parentId: string | null, childId: string) => {
+    setSelections((prev) => ({ ...prev, [parentKey(parentId)]: childId }));
+  };
+
+  // Sends a request to /api/chat and streams the reply into a draft bubble.
+  // A sent message shows right away and is replaced by the saved row once the
+  // server has accepted it. Failed requests can be retried with the same key.
+  const streamReply = async (body: ChatRequest) => {
     setIsProcessing(true);
-    
-    try {
-      // Insert user message
-      const userMessage = {
+    setHighlightedId(null);
+    // The reply to the user's own action is followed
+    isAtBottomRef.current = true;
+    setError(null);
+    setFailedRequest(null);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    // The draft as last shown, and whether it has text the server will keep
+    // if the reply is stopped
+    let shown: Message | null = null;
+    let hasNewText = false;
+
+    // Kept if a message with the key is already on screen, e.g. on a retry
+    const clientKey = body.clientKey;
+    if (body.action === 'send' && clientKey) {
+      const optimistic: Message = {
+        id: clientKey,
         chat_id: chatId,
+        parent_id: body.parentId,
         role: 'user',
-        content: newMessage,
+        content: body.content,
         created_at: new Date().toISOString(),
+        citations: null,
+        tool_call: null,
+        stopped: false,
+        client_key: clientKey,
+        user_id: user?.id ?? null,
       };
+      setMessages((prev) => addMessage(prev, optimistic));
+      setSendStatus((prev) => ({ ...prev, [clientKey]: 'pending' }));
+      selectBranch(body.parentId, clientKey);
+    }
+    const clearStatus = () => {
+      if (!clientKey) return;
+      setSendStatus((prev) => withoutKey(prev, clientKey));
+    };
 
-      const { error: userMessageError } = await supabase
-        .from('messages')
-        .insert([userMessage]);
-
-      if (userMessageError) throw userMessageError;
-
-      // Clear input
-      setNewMessage('');
-
-      // Prepare messages for API call
-      const allMessages = [
-        ...(chat?.system_prompt
-          ? [{ role: 'system', content: chat.system_prompt }]
-          : []),
-        ...messages,
-        userMessage,
-      ] as { role: 'user' | 'assistant' | 'system'; content: string }[];
-
-      // Call API route to get AI response
+    try {
+      // The server saves the user message and builds the history itself
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          messages: allMessages,
-          chatId,
-        }),
+        body: JSON.stringify(body),
+        signal: abortController.signal,
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to get AI response');
+      if (!response.ok || !response.body) {
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(errorBody?.error || 'Failed to get AI response');
+      }
+
+      // Id the reply will be saved with
+      let replyId: string | null = null;
+
+      for await (const event of readChatEvents(response.body)) {
+        if (event.type === 'start') {
+          replyId = event.messageId;
+          if (event.userMessage) {
+            const userMessage = event.userMessage;
+            setMessages((prev) => putMessage(prev, userMessage));
+            selectBranch(userMessage.parent_id, userMessage.id);
+            clearStatus();
+
+            // Files go with the message once it is saved
+            if (body.action === 'send' && body.attachmentIds?.length) {
+              const ids = body.attachmentIds;
+              const sent = pendingAttachments.filter((attachment) => ids.includes(attachment.id));
+              setPendingAttachments((prev) => prev.filter((attachment) => !ids.includes(attachment.id)));
+              setAttachments((prev) => [
+                ...prev.filter((attachment) => !ids.includes(attachment.id)),
+                ...sent.map((attachment) => ({ ...attachment, message_id: userMessage.id })),
+              ]);
+            }
+          }
+          shown = {
+            id: event.messageId,
+            chat_id: chatId,
+            parent_id: event.parentId,
+            role: 'assistant',
+            content: event.content ?? '',
+            created_at: new Date().toISOString(),
+            citations: null,
+            tool_call: null,
+            stopped: false,
+            client_key: clientKey ?? null,
+            user_id: null,
+          };
+          setDraft(shown);
+          selectBranch(event.parentId, event.messageId);
+        } else if (event.type === 'context') {
+          setContextUsage(event.usage);
+        } else if (event.type === 'delta') {
+          if (shown) shown = { ...shown, content: shown.content + event.content };
+          hasNewText = true;
+          setDraft(shown);
+        } else if (event.type === 'tool') {
+          // The step goes between the reply and what it answers, and the
+          // reply starts over below it
+          const toolMessage = event.message;
+          setMessages((prev) => addMessage(prev, toolMessage));
+          selectBranch(toolMessage.parent_id, toolMessage.id);
+          if (shown) shown = { ...shown, parent_id: toolMessage.id, content: '' };
+          hasNewText = false;
+          setDraft(shown);
+          if (replyId) selectBranch(toolMessage.id, replyId);
+        } else if (event.type === 'done') {
+          setMessages((prev) => addMessage(prev, event.message));
+          // A concurrent retry may have saved the reply under another id
+          selectBranch(event.message.parent_id, event.message.id);
+        } else if (event.type === 'title') {
+          const title = event.title;
+          setChat((prev) => (prev ? { ...prev, title } : null));
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
+        }
       }
     } catch (error) {
+      if (abortController.signal.aborted) {
+        // The server saves the partial reply as stopped; show it until the
+        // saved row arrives
+        const partial = shown;
+        if (partial && hasNewText) {
+          setMessages((prev) => addMessage(prev, { ...partial, stopped: true }));
+        }
+        clearStatus();
+        return;
+      }
       console.error('Error sending message:', error);
+      // Over-limit responses explain when the user can try again
+      setError(error instanceof Error ? error.message : 'Failed to get AI response');
+      setFailedRequest(body);
+      // Still shown when the server never saved it; the banner offers a retry
+      if (clientKey) {
+        setSendStatus((prev) => (prev[clientKey] ? { ...prev, [clientKey]: 'failed' } : prev));
+      }
     } finally {
+      abortControllerRef.current = null;
+      setDraft(null);
       setIsProcessing(false);
     }
   };
 
-  const handleUpdateSystemPrompt = async (newPrompt: string) => {
+  // Closing the connection stops generation on the server and upstream
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newMessage.trim() || !user || !chatId || isProcessing || isUploading || hasUnsent) return;
+
+    // Continue the branch that is on screen
+    const content = newMessage;
+    setNewMessage('');
+    setTyping(false);
+    await streamReply({
+      action: 'send',
+      chatId,
+      clientKey: crypto.randomUUID(),
+      parentId: leafId,
+      content,
+      attachmentIds: pendingAttachments.map((attachment) => attachment.id),
+    });
+  };
+
+  const handleRetry = async () => {
+    if (!failedRequest || isProcessing) return;
+    await streamReply(failedRequest);
+  };
+
+  // Drops a message the server never saved and puts its text back in the input
+  const handleDiscard = () => {
+    if (failedRequest?.action === 'send' && failedRequest.clientKey) {
+      const { clientKey, content } = failedRequest;
+      if (sendStatus[clientKey] === 'failed') {
+        setMessages((prev) => prev.filter((message) => message.id !== clientKey));
+        setSendStatus((prev) => withoutKey(prev, clientKey));
+        setNewMessage((prev) => prev || content);
+      }
+    }
+    setFailedRequest(null);
+    setError(null);
+  };
+
+  const handleAttachFiles = async (files: File[]) => {
+    if (!user || !chatId) return;
+    setError(null);
+
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - pendingAttachments.length;
+    if (files.length > room) {
+      setError(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        // Checked here too so large files aren't uploaded only to be refused
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+          throw new Error(
+            `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+          );
+        }
+
+        const formData = new FormData();
+        formData.append('chatId', chatId);
+        formData.append('file', file);
+
+        const response = await fetch('/api/attachments', { method: 'POST', body: formData });
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(`${file.name}: ${body.error || 'Upload failed'}`);
+        }
+
+        const attachment = body.attachment as AttachmentInfo;
+        setPendingAttachments((prev) => [...prev, attachment]);
+      }
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      setError(error instanceof Error ? error.message : 'Failed to upload the file');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemoveAttachment = async (attachment: AttachmentInfo) => {
+    setPendingAttachments((prev) => prev.filter((pending) => pending.id !== attachment.id));
+
+    try {
+      const response = await fetch(`/api/attachments/${attachment.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error);
+      }
+    } catch (error) {
+      // Left in storage; it won't be sent with a message
+      console.error('Error removing attachment:', error);
+    }
+  };
+
+  // Editing keeps the original and adds the new text as a sibling branch
+  const handleEditMessage = async (message: Message, content: string) => {
+    if (!user || isProcessing) return;
+    await streamReply({
+      action: 'send',
+      chatId,
+      clientKey: crypto.randomUUID(),
+      parentId: message.parent_id,
+      content,
+    });
+  };
+
+  const handleRegenerate = async (message: Message) => {
+    if (!user || isProcessing) return;
+    await streamReply({
+      action: 'regenerate',
+      chatId,
+      clientKey: crypto.randomUUID(),
+      messageId: message.id,
+    });
+  };
+
+  const handleContinue = async (message: Message) => {
+    if (!user || isProcessing) return;
+    await streamReply({
+      action: 'continue',
+      chatId,
+      clientKey: crypto.randomUUID(),
+      messageId: message.id,
+    });
+  };
+
+  const handleUpdateSystemPrompt = async (
+    newPrompt: string,
+    promptVariables: Record<string, string>
+  ) => {
     if (!user || !chatId) return;
 
     try {
       const { error } = await supabase
         .from('chats')
-        .update({ system_prompt: newPrompt })
-        .eq('id', chatId)
-        .eq('user_id', user.id);
+        .update({ system_prompt: newPrompt, prompt_variables: promptVariables })
+        .eq('id', chatId);
 
       if (error) throw error;
 
-      setChat((prev) => (prev ? { ...prev, system_prompt: newPrompt } : null));
+      setChat((prev) =>
+        prev ? { ...prev, system_prompt: newPrompt, prompt_variables: promptVariables } : null
+      );
     } catch (error) {
       console.error('Error updating system prompt:', error);
       throw error;
     }
   };
 
+  const handleUpdateSettings = async (settings: ChatSettings) => {
+    if (!user || !chatId) return;
+
+    // Saved through the API so the settings are checked against the provider
+    const response = await fetch(`/api/chats/${chatId}/settings`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(settings),
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body.error || 'Failed to save settings');
+    }
+
+    setChat(body.chat as Chat);
+  };
+
+  // Messages up to this index reach the model only through the summary
+  const summarizedThroughIndex = contextUsage?.summarizedThroughId
+    ? activePath.findIndex((message) => message.id === contextUsage.summarizedThroughId)
+    : -1;
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -175,57 +788,298 @@ export default function ChatWindow({ chatId }: ChatWindowProps) {
 
   return (
     <div className="flex flex-col h-full">
-      <div className="p-4 border-b">
+      <div className="p-4 border-b flex justify-between items-center">
         <h2 className="text-xl font-semibold">{chat.title}</h2>
+        <div className="flex items-center gap-4">
+          <ChatPresence others={others} />
+          <ConnectionIndicator status={connectionStatus} />
+          {user && role && (
+            <ChatMembersPanel
+              chatId={chatId}
+              userId={user.id}
+              role={role}
+              members={members}
+              presentIds={new Set(present.map((person) => person.userId))}
+              onChange={fetchMembers}
+              onLeave={() => router.push('/')}
+            />
+          )}
+          {role === 'owner' && <SharePanel chatId={chatId} />}
+          <ExportLinks chatId={chatId} />
+          {quota && <QuotaIndicator quota={quota} />}
+          {contextUsage && <ContextUsageMeter usage={contextUsage} />}
+        </div>
       </div>
 
-      <SystemPromptEditor
-        initialPrompt={chat.system_prompt || 'You are a helpful assistant.'}
-        onSave={handleUpdateSystemPrompt}
-      />
+      <div className="grid md:grid-cols-3 gap-x-4">
+        <SystemPromptEditor
+          initialPrompt={chat.system_prompt || DEFAULT_SYSTEM_PROMPT}
+          initialVariables={chat.prompt_variables || {}}
+          onSave={handleUpdateSystemPrompt}
+          readOnly={!canEdit}
+        />
+        <ChatSettingsPanel settings={chat} onSave={handleUpdateSettings} readOnly={!canEdit} />
+        {canEdit && <ChatKnowledgePanel chatId={chatId} />}
+      </div>
 
-      <div className="flex-1 overflow-y-auto p-4">
-        {messages.length === 0 ? (
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto">
+        {activePath.length === 0 ? (
           <div className="flex items-center justify-center h-full text-gray-500">
             No messages yet. Start the conversation!
           </div>
         ) : (
-          messages.map((message) => (
-            <MessageBubble key={message.id} message={message} />
-          ))
+          <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+            {isLoadingOlder && (
+              <div className="absolute top-0 inset-x-0 flex justify-center py-1">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+              </div>
+            )}
+            {virtualizer.getVirtualItems().map((item) => {
+              const message = activePath[item.index];
+              const siblings = children.get(parentKey(message.parent_id)) || [message];
+              const isDraft = message.id === draft?.id;
+
+              return (
+                // flow-root keeps the bubble's margin inside the measured height
+                <div
+                  key={item.key}
+                  ref={virtualizer.measureElement}
+                  data-index={item.index}
+                  className="absolute top-0 left-0 w-full px-4 flow-root"
+                  style={{ transform: `translateY(${item.start}px)` }}
+                >
+                  <MessageBubble
+                    message={message}
+                    attachments={attachmentsByMessage.get(message.id)}
+                    citations={message.citations}
+                    summarized={item.index <= summarizedThroughIndex}
+                    highlighted={message.id === highlightedId}
+                    status={sendStatus[message.id]}
+                    author={authorOf(message)}
+                    branch={{
+                      index: siblings.indexOf(message),
+                      count: siblings.length,
+                      onSelect: (siblingIndex) => {
+                        setHighlightedId(null);
+                        selectBranch(message.parent_id, siblings[siblingIndex].id);
+                      },
+                    }}
+                    actionsDisabled={isProcessing}
+                    onEdit={
+                      canEdit && message.role === 'user' && !sendStatus[message.id]
+                        ? (content) => handleEditMessage(message, content)
+                        : undefined
+                    }
+                    onRegenerate={
+                      canEdit && message.role === 'assistant' && !isDraft
+                        ? () => handleRegenerate(message)
+                        : undefined
+                    }
+                    onContinue={
+                      canEdit && message.role === 'assistant' && message.stopped && !isDraft
+                        ? () => handleContinue(message)
+                        : undefined
+                    }
+                  />
+                </div>
+              );
+            })}
+          </div>
         )}
-        <div ref={messagesEndRef} />
       </div>
 
       <div className="p-4 border-t">
-        <form onSubmit={handleSendMessage} className="flex">
-          <input
-            type="text"
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            placeholder="Type your message..."
-            className="flex-1 p-2 border border-gray-300 rounded-l-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            disabled={isProcessing}
-          />
-          <button
-            type="submit"
-            disabled={!newMessage.trim() || isProcessing}
-            className="bg-blue-600 text-white px-4 py-2 rounded-r-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
-          >
-            {isProcessing ? (
-              <span className="flex items-center">
-                <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Processing
+        {error && (
+          <div className="mb-2 p-2 text-sm bg-red-100 text-red-700 rounded-md flex justify-between items-center gap-4">
+            <span>{error}</span>
+            {failedRequest && (
+              <span className="flex gap-3 shrink-0">
+                <button
+                  type="button"
+                  onClick={handleRetry}
+                  disabled={isProcessing}
+                  className="font-medium hover:underline disabled:opacity-50"
+                >
+                  Retry
+                </button>
+                <button type="button" onClick={handleDiscard} className="hover:underline">
+                  {hasUnsent ? 'Discard' : 'Dismiss'}
+                </button>
               </span>
+            )}
+          </div>
+        )}
+        {pendingAttachments.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-1">
+            {pendingAttachments.map((attachment) => (
+              <AttachmentChip
+                key={attachment.id}
+                attachment={attachment}
+                onRemove={() => handleRemoveAttachment(attachment)}
+                removeDisabled={isProcessing}
+              />
+            ))}
+          </div>
+        )}
+        {typingNames.length > 0 && (
+          <p className="mb-1 text-xs text-gray-500">
+            {typingNames.join(', ')} {typingNames.length === 1 ? 'is' : 'are'} typing…
+          </p>
+        )}
+        {!canEdit ? (
+          <p className="text-sm text-gray-500 text-center">
+            You can read this chat. Only its owner and editors can send messages.
+          </p>
+        ) : (
+          <form onSubmit={handleSendMessage} className="flex">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_EXTENSIONS.join(',')}
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                // Cleared so picking the same file again still fires a change
+                e.target.value = '';
+                if (files.length > 0) handleAttachFiles(files);
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={
+                isProcessing ||
+                isUploading ||
+                pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE
+              }
+              className="px-3 py-2 border border-r-0 border-gray-300 rounded-l-md text-gray-600 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              title="Attach text, Markdown, CSV, JSON, code or PDF files"
+            >
+              {isUploading ? 'Uploading…' : 'Attach'}
+            </button>
+            <input
+              type="text"
+              value={newMessage}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                setTyping(e.target.value !== '');
+              }}
+              placeholder="Type your message..."
+              className="flex-1 p-2 border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={isProcessing}
+            />
+            {isProcessing ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                className="bg-gray-700 text-white px-4 py-2 rounded-r-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500"
+              >
+                <span className="flex items-center">
+                  <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  Stop
+                </span>
+              </button>
             ) : (
-              'Send'
+              <button
+                type="submit"
+                disabled={!newMessage.trim() || isUploading || hasUnsent}
+                className="bg-blue-600 text-white px-4 py-2 rounded-r-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                Send
+              </button>
             )}
-          </button>
-        </form>
+          </form>
+        )}
       </div>
     </div>
   );
 }
+
+type MessageCursor = Pick<Message, 'id' | 'created_at'>;
+
+// PostgREST filter for messages before or after a cursor. Ordering by
+// (created_at, id) keeps messages saved in the same instant from being
+// skipped or repeated.
+function cursorFilter(operator: 'lt' | 'gt', cursor: MessageCursor): string {
+  return (
+    `created_at.${operator}."${cursor.created_at}",` +
+    `and(created_at.eq."${cursor.created_at}",id.${operator}.${cursor.id})`
+  );
+}
+
+// Whether a message comes after another in page order
+function isNewer(a: MessageCursor, b: MessageCursor): boolean {
+  return a.created_at > b.created_at || (a.created_at === b.created_at && a.id > b.id);
+}
+
+// Fetches the page of messages just older than `before`, or the newest page,
+// oldest first
+async function fetchMessagePage(
+  chatId: string,
+  before: MessageCursor | null
+): Promise<Message[]> {
+  let query = supabase.from('messages').select('*').eq('chat_id', chatId);
+  if (before) query = query.or(cursorFilter('lt', before));
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(MESSAGE_PAGE_SIZE);
+
+  if (error) throw error;
+  return (data as Message[]).reverse();
+}
+
+// Fetches every message newer than `after`, or all of them, oldest first
+async function fetchMessagesAfter(
+  chatId: string,
+  after: MessageCursor | null
+): Promise<Message[]> {
+  let query = supabase.from('messages').select('*').eq('chat_id', chatId);
+  if (after) query = query.or(cursorFilter('gt', after));
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+  return data as Message[];
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const rest = { ...record };
+  delete rest[key];
+  return rest;
+}
+
+// Whether two entries are the same message: the same row, or a shown
+// message and the row saved for it under the same client key
+function isSameMessage(a: Message, b: Message): boolean {
+  return a.id === b.id || (!!a.client_key && a.client_key === b.client_key && a.role === b.role);
+}
+
+// Appends a message unless it is already in the list, e.g. when the realtime
+// INSERT and the stream's final event both deliver the same row
+function addMessage(messages: Message[], message: Message): Message[] {
+  if (messages.some((existing) => isSameMessage(existing, message))) {
+    return messages;
+  }
+  return [...messages, message];
+}
+
+// Replaces the copy of a message in the list; messages that aren't loaded
+// stay out
+function replaceMessage(messages: Message[], message: Message): Message[] {
+  return messages.map((existing) => (existing.id === message.id ? message : existing));
+}
+
+// Appends a message or replaces the copy already in the list
+function putMessage(messages: Message[], message: Message): Message[] {
+  return messages.some((existing) => isSameMessage(existing, message))
+    ? messages.map((existing) => (isSameMessage(existing, message) ? message : existing))
+    : [...messages, message];
+}
@@ -0,0 +1,37 @@
+'use client';
+
+// State of the realtime channel that keeps an open chat in sync
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting';
+
+const STATUS_DISPLAY: Record<ConnectionStatus, { label: string; dot: string; title: string }> = {
+  connecting: {
+    label: 'Connecting…',
+    dot: 'bg-gray-400',
+    title: 'Connecting to live updates',
+  },
+  connected: {
+    label: 'Live',
+    dot: 'bg-green-500',
+    title: 'Changes made elsewhere show up here as they happen',
+  },
+  reconnecting: {
+    label: 'Reconnecting…',
+    dot: 'bg-amber-500 animate-pulse',
+    title: 'Live updates are interrupted; missed messages load once the connection is back',
+  },
+};
+
+interface ConnectionIndicatorProps {
+  status: ConnectionStatus;
+}
+
+export default function ConnectionIndicator({ status }: ConnectionIndicatorProps) {
+  const { label, dot, title } = STATUS_DISPLAY[status];
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500" title={title} role="status">
+      <span className={`inline-block h-2 w-2 rounded-full ${dot}`} />
+      {label}
+    </div>
+  );
+}
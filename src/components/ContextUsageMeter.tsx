@@ -0,0 +1,30 @@
+'use client';
+
+import type { ContextUsage } from '@/lib/chatContext';
+
+interface ContextUsageMeterProps {
+  usage: ContextUsage;
+}
+
+export default function ContextUsageMeter({ usage }: ContextUsageMeterProps) {
+  const percent = Math.min(100, Math.round((usage.usedTokens / usage.contextWindow) * 100));
+  const barColor =
+    percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-yellow-500' : 'bg-blue-600';
+
+  return (
+    <div
+      className="w-48 text-xs text-gray-500"
+      title={`${usage.usedTokens.toLocaleString()} of ${usage.contextWindow.toLocaleString()} tokens`}
+    >
+      <div className="flex justify-between mb-1">
+        <span>Context</span>
+        <span>
+          {usage.usedTokens.toLocaleString()} / {usage.contextWindow.toLocaleString()} ({percent}%)
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import type { ExportFormat } from '@/lib/chatExport';
+
+interface ExportLinksProps {
+  // Exports every chat of the user when omitted
+  chatId?: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'jsonl', label: 'JSONL' },
+];
+
+export default function ExportLinks({ chatId }: ExportLinksProps) {
+  return (
+    <span className="text-sm text-gray-600">
+      Export:{' '}
+      {FORMATS.map(({ format, label }, index) => (
+        <span key={format}>
+          {index > 0 && ' · '}
+          {/* The session cookie authenticates the download */}
+          <a
+            href={`/api/export?format=${format}${chatId ? `&chatId=${chatId}` : ''}`}
+            download
+            className="text-blue-600 hover:text-blue-800"
+            title={format === 'jsonl' ? 'OpenAI chat fine-tuning format' : undefined}
+          >
+            {label}
+          </a>
+        </span>
+      ))}
+    </span>
+  );
+}
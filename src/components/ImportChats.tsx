@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+
+// One chat as reported by POST /api/import
+type ImportSummary = {
+  id?: string;
+  title: string;
+  messageCount: number;
+  warnings: string[];
+};
+
+export default function ImportChats() {
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportSummary[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  const postImport = async (content: string, dryRun: boolean): Promise<ImportSummary[]> => {
+    const response = await fetch(`/api/import${dryRun ? '?dryRun=true' : ''}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: content,
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body.error || 'Import failed');
+    }
+    return body.chats as ImportSummary[];
+  };
+
+  // Reading a file only previews it; nothing is saved until confirmed
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setImportedCount(null);
+    setIsWorking(true);
+    try {
+      const content = await file.text();
+      setPreview(await postImport(content, true));
+      setFileContent(content);
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      setError(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!fileContent) return;
+
+    setError(null);
+    setIsWorking(true);
+    try {
+      const imported = await postImport(fileContent, false);
+      setImportedCount(imported.length);
+      setPreview(null);
+      setFileContent(null);
+    } catch (error) {
+      console.error('Error importing chats:', error);
+      setError(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setPreview(null);
+    setFileContent(null);
+  };
+
+  return (
+    <div className="text-sm text-gray-600">
+      <label className="text-blue-600 hover:text-blue-800 cursor-pointer">
+        {isWorking ? 'Importing...' : 'Import'}
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          disabled={isWorking}
+          className="hidden"
+        />
+      </label>
+
+      {error && <p className="mt-2 text-red-600">{error}</p>}
+      {importedCount !== null && (
+        <p className="mt-2 text-green-700">Imported {importedCount} chat(s).</p>
+      )}
+
+      {preview && (
+        <div className="mt-2 p-4 bg-gray-100 rounded-lg">
+          <h3 className="font-medium text-gray-700 mb-2">
+            Import {preview.length} chat(s)?
+          </h3>
+          <ul className="mb-2 max-h-60 overflow-y-auto">
+            {preview.map((chat, index) => (
+              <li key={index} className="py-1">
+                {chat.title} · {chat.messageCount} message(s)
+                {chat.warnings.map((warning) => (
+                  <p key={warning} className="text-xs text-yellow-700">
+                    {warning}
+                  </p>
+                ))}
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-end gap-2">
+            <button onClick={handleCancel} className="text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={isWorking}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from './AuthContext';
+import { ACCEPTED_EXTENSIONS } from '@/lib/attachments';
+import {
+  KnowledgeBase,
+  KnowledgeDocument,
+  MAX_DOCUMENT_BYTES,
+  MAX_KNOWLEDGE_BASE_NAME_LENGTH,
+} from '@/lib/knowledge';
+import { formatFileSize } from '@/utils/formatFileSize';
+import { formatTimestamp } from '@/utils/formatTimestamp';
+
+function KnowledgeBaseDocuments({
+  knowledgeBase,
+  onError,
+}: {
+  knowledgeBase: KnowledgeBase;
+  onError: (message: string | null) => void;
+}) {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const fetchDocuments = async () => {
+      const { data, error } = await supabase
+        .from('knowledge_documents')
+        .select('*')
+        .eq('knowledge_base_id', knowledgeBase.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching documents:', error);
+        return;
+      }
+      setDocuments(data as KnowledgeDocument[]);
+    };
+
+    fetchDocuments();
+  }, [knowledgeBase.id]);
+
+  // Indexing happens on the server, which chunks and embeds the text
+  const handleUpload = async (files: File[]) => {
+    onError(null);
+    setIsUploading(true);
+
+    try {
+      for (const file of files) {
+        if (file.size > MAX_DOCUMENT_BYTES) {
+          throw new Error(`${file.name} is larger than ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`);
+        }
+
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await fetch(`/api/knowledge/${knowledgeBase.id}/documents`, {
+          method: 'POST',
+          body: formData,
+        });
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(`${file.name}: ${body.error || 'Upload failed'}`);
+        }
+
+        const document = body.document as KnowledgeDocument;
+        setDocuments((prev) => [...prev, document]);
+      }
+    } catch (error) {
+      console.error('Error adding document:', error);
+      onError(error instanceof Error ? error.message : 'Failed to add the document');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Its chunks are deleted with it
+  const handleDelete = async (documentId: string) => {
+    onError(null);
+
+    const { error } = await supabase.from('knowledge_documents').delete().eq('id', documentId);
+
+    if (error) {
+      console.error('Error deleting document:', error);
+      onError('Could not delete the document. Please try again.');
+      return;
+    }
+    setDocuments((prev) => prev.filter((document) => document.id !== documentId));
+  };
+
+  return (
+    <div className="mt-3">
+      {documents.length === 0 ? (
+        <p className="text-sm text-gray-500">No documents yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {documents.map((document) => (
+            <li key={document.id} className="py-2 flex justify-between items-center gap-4">
+              <div className="min-w-0">
+                <p className="text-gray-900 truncate">{document.name}</p>
+                <p className="text-xs text-gray-500">
+                  {formatFileSize(document.size)} · {document.chunk_count} chunks · added{' '}
+                  {formatTimestamp(document.created_at)}
+                  {document.truncated && ' · only the beginning was indexed'}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(document.id)}
+                className="text-red-600 hover:text-red-800 shrink-0"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ACCEPTED_EXTENSIONS.join(',')}
+        className="hidden"
+        onChange={(e) => {
+          const files = Array.from(e.target.files || []);
+          // Cleared so picking the same file again still fires a change
+          e.target.value = '';
+          if (files.length > 0) handleUpload(files);
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isUploading}
+        className="mt-2 px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {isUploading ? 'Indexing...' : 'Add Documents'}
+      </button>
+    </div>
+  );
+}
+
+export default function KnowledgeBaseManager() {
+  const { user } = useAuth();
+  const [knowledgeBases, setKnowledgeBases] = useState<KnowledgeBase[]>([]);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchKnowledgeBases = async () => {
+      const { data, error } = await supabase
+        .from('knowledge_bases')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching knowledge bases:', error);
+        setError('Could not load your knowledge bases. Please try again.');
+        return;
+      }
+      setKnowledgeBases(data as KnowledgeBase[]);
+    };
+
+    fetchKnowledgeBases();
+  }, [user]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !name.trim()) return;
+    setError(null);
+    setIsSaving(true);
+
+    const { data, error } = await supabase
+      .from('knowledge_bases')
+      .insert({ user_id: user.id, name: name.trim(), description: description.trim() || null })
+      .select()
+      .single();
+
+    setIsSaving(false);
+    if (error) {
+      console.error('Error creating knowledge base:', error);
+      setError('Could not create the knowledge base. Please try again.');
+      return;
+    }
+
+    const created = data as KnowledgeBase;
+    setKnowledgeBases((prev) =>
+      [...prev, created].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setOpenId(created.id);
+    setName('');
+    setDescription('');
+  };
+
+  // Documents, chunks and chat links go with it
+  const handleDelete = async (id: string) => {
+    if (!user) return;
+    setError(null);
+
+    const { error } = await supabase
+      .from('knowledge_bases')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting knowledge base:', error);
+      setError('Could not delete the knowledge base. Please try again.');
+      return;
+    }
+    setKnowledgeBases((prev) => prev.filter((knowledgeBase) => knowledgeBase.id !== id));
+    setConfirmingDeleteId(null);
+  };
+
+  return (
+    <div>
+      <div className="bg-white shadow rounded-lg p-4 sm:p-6 mb-8">
+        <h2 className="text-lg font-medium text-gray-900 mb-2">New Knowledge Base</h2>
+        <p className="mb-4 text-sm text-gray-600">
+          Add documents to a knowledge base, then turn it on in a chat. Replies in that chat are
+          given the passages closest to each message and cite them.
+        </p>
+        <form onSubmit={handleCreate}>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name, e.g. Engineering handbook"
+            maxLength={MAX_KNOWLEDGE_BASE_NAME_LENGTH}
+            className="w-full mb-2 p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="mt-2 flex justify-end">
+            <button
+              type="submit"
+              disabled={isSaving || !name.trim()}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">{error}</div>}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <h2 className="px-4 py-5 sm:px-6 text-lg font-medium text-gray-900">Your Knowledge Bases</h2>
+        {knowledgeBases.length === 0 ? (
+          <div className="px-4 py-5 sm:px-6 text-center text-gray-500 border-t border-gray-200">
+            No knowledge bases yet.
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 border-t border-gray-200">
+            {knowledgeBases.map((knowledgeBase) => (
+              <li key={knowledgeBase.id} className="px-4 py-4 sm:px-6">
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <h3 className="font-medium text-gray-900">{knowledgeBase.name}</h3>
+                    {knowledgeBase.description && (
+                      <p className="mt-1 text-sm text-gray-600">{knowledgeBase.description}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-3 text-sm shrink-0">
+                    <button
+                      onClick={() =>
+                        setOpenId((prev) => (prev === knowledgeBase.id ? null : knowledgeBase.id))
+                      }
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      {openId === knowledgeBase.id ? 'Hide documents' : 'Documents'}
+                    </button>
+                    {confirmingDeleteId === knowledgeBase.id ? (
+                      <>
+                        <button
+                          onClick={() => handleDelete(knowledgeBase.id)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Confirm delete
+                        </button>
+                        <button
+                          onClick={() => setConfirmingDeleteId(null)}
+                          className="text-gray-600 hover:text-gray-800"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmingDeleteId(knowledgeBase.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {openId === knowledgeBase.id && (
+                  <KnowledgeBaseDocuments knowledgeBase={knowledgeBase} onError={setError} />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
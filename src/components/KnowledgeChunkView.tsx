@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import type { KnowledgeBase, KnowledgeDocument } from '@/lib/knowledge';
+
+// A chunk with the document and knowledge base it came from
+type ChunkWithSource = {
+  id: string;
+  chunk_index: number;
+  content: string;
+  knowledge_documents: Pick<KnowledgeDocument, 'name' | 'chunk_count'> | null;
+  knowledge_bases: Pick<KnowledgeBase, 'name'> | null;
+};
+
+interface KnowledgeChunkViewProps {
+  chunkId: string;
+}
+
+export default function KnowledgeChunkView({ chunkId }: KnowledgeChunkViewProps) {
+  const [chunk, setChunk] = useState<ChunkWithSource | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchChunk = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('knowledge_chunks')
+        .select('id, chunk_index, content, knowledge_documents(name, chunk_count), knowledge_bases(name)')
+        .eq('id', chunkId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching knowledge chunk:', error);
+      }
+      // Without generated database types, the client types the embedded
+      // to-one rows as arrays
+      setChunk(data as unknown as ChunkWithSource | null);
+      setIsLoading(false);
+    };
+
+    fetchChunk();
+  }, [chunkId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  // Citations outlive the documents they point to
+  if (!chunk) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center text-gray-500">
+        This source is no longer available. Its document or knowledge base may have been deleted.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4 sm:p-6">
+      <h2 className="text-lg font-medium text-gray-900">
+        {chunk.knowledge_documents?.name}
+      </h2>
+      <p className="mb-4 text-sm text-gray-500">
+        Part {chunk.chunk_index + 1}
+        {chunk.knowledge_documents && ` of ${chunk.knowledge_documents.chunk_count}`}
+        {chunk.knowledge_bases && ` · ${chunk.knowledge_bases.name}`}
+      </p>
+      <div className="text-sm text-gray-800 whitespace-pre-wrap">{chunk.content}</div>
+    </div>
+  );
+}
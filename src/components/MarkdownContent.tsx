@@ -0,0 +1,75 @@
+'use client';
+
+import { isValidElement, ReactNode, useRef, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+function CodeBlock({ children }: { children: ReactNode }) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  // The fence language ends up as a `language-*` class on the inner <code>
+  const className = isValidElement<{ className?: string }>(children)
+    ? children.props.className
+    : undefined;
+  const language = className?.match(/language-([\w+#.-]+)/)?.[1];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-md border border-gray-300 overflow-hidden bg-white text-gray-800">
+      <div className="flex justify-between items-center px-3 py-1 text-xs bg-gray-100 text-gray-600">
+        <span>{language || 'text'}</span>
+        <button type="button" onClick={handleCopy} className="hover:text-gray-900">
+          {copied ? 'Copied!' : 'Copy'}
+        </button>
+      </div>
+      <pre ref={preRef} className="p-3 overflow-x-auto text-sm">
+        {children}
+      </pre>
+    </div>
+  );
+}
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, title, children }) => (
+    <a href={href} title={title} target="_blank" rel="noopener noreferrer">
+      {children}
+    </a>
+  ),
+};
+
+// Renders model output as Markdown. Raw HTML in the source is never rendered
+// and unsafe link protocols are stripped, so content cannot inject markup.
+export default function MarkdownContent({ content }: MarkdownContentProps) {
+  return (
+    <div className="markdown-body">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: false }]]}
+        components={components}
+        skipHtml
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -1,31 +1,286 @@
 'use client';
 
+import { useState } from 'react';
 import { Message } from '@/lib/supabaseClient';
+import type { AttachmentInfo } from '@/lib/attachments';
+import type { Citation } from '@/lib/knowledge';
 import { formatTimestamp } from '@/utils/formatTimestamp';
+import Link from 'next/link';
+import MarkdownContent from './MarkdownContent';
+import AttachmentChip from './AttachmentChip';
 
 interface MessageBubbleProps {
-  message: Message;
+  message: Pick<Message, 'id' | 'role' | 'content' | 'created_at' | 'tool_call' | 'stopped'>;
+  // Files sent with the message
+  attachments?: AttachmentInfo[];
+  // Knowledge base chunks a reply was given, cited in it as [index]
+  citations?: Citation[] | null;
+  // The model now sees this message only through the chat's summary
+  summarized?: boolean;
+  // Marks the message a search result pointed to
+  highlighted?: boolean;
+  // Set on a sent message until the server has saved it
+  status?: 'pending' | 'failed';
+  // Who wrote a user message, shown in chats with more than one member
+  author?: string;
+  // Position among the alternatives that share this message's parent
+  branch?: {
+    index: number;
+    count: number;
+    onSelect: (index: number) => void;
+  };
+  actionsDisabled?: boolean;
+  onEdit?: (content: string) => Promise<void>;
+  onRegenerate?: () => Promise<void>;
+  // Finishes a stopped reply
+  onContinue?: () => Promise<void>;
 }
 
-export default function MessageBubble({ message }: MessageBubbleProps) {
+type BranchControlsProps = NonNullable<MessageBubbleProps['branch']>;
+
+function BranchControls({ index, count, onSelect }: BranchControlsProps) {
+  return (
+    <span className="flex items-center mr-1">
+      <button
+        type="button"
+        onClick={() => onSelect(index - 1)}
+        disabled={index === 0}
+        className="px-1 disabled:opacity-40"
+        aria-label="Previous version"
+      >
+        &lt;
+      </button>
+      {index + 1}/{count}
+      <button
+        type="button"
+        onClick={() => onSelect(index + 1)}
+        disabled={index === count - 1}
+        className="px-1 disabled:opacity-40"
+        aria-label="Next version"
+      >
+        &gt;
+      </button>
+    </span>
+  );
+}
+
+// Indents JSON for reading; anything else is shown as it is
+function formatJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+// A tool call made while writing a reply, collapsed to its name by default
+function ToolStep({
+  message,
+  summarized,
+  branch,
+}: Pick<MessageBubbleProps, 'message' | 'summarized' | 'branch'>) {
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={`flex justify-start mb-2 ${summarized ? 'opacity-60' : ''}`}
+    >
+      <div className="max-w-[80%] text-xs text-gray-600">
+        <details className="rounded-lg border border-gray-200 bg-gray-50 px-3 py-1">
+          <summary className="cursor-pointer">
+            Used tool <code className="font-medium">{message.tool_call?.name ?? 'unknown'}</code>
+          </summary>
+          <div className="mt-1 mb-1 space-y-1">
+            <div>
+              <span className="font-medium">Arguments</span>
+              <pre className="mt-0.5 p-2 bg-white rounded whitespace-pre-wrap break-words">
+                {formatJson(message.tool_call?.arguments || '{}')}
+              </pre>
+            </div>
+            <div>
+              <span className="font-medium">Result</span>
+              <pre className="mt-0.5 p-2 bg-white rounded whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+                {formatJson(message.content)}
+              </pre>
+            </div>
+          </div>
+        </details>
+        <div className="mt-0.5 flex flex-wrap items-center gap-x-1 text-gray-500">
+          {branch && branch.count > 1 && <BranchControls {...branch} />}
+          <span>{formatTimestamp(message.created_at)}</span>
+          {summarized && <span>· Summarized</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function MessageBubble({
+  message,
+  attachments = [],
+  citations,
+  summarized = false,
+  highlighted = false,
+  status,
+  author,
+  branch,
+  actionsDisabled = false,
+  onEdit,
+  onRegenerate,
+  onContinue,
+}: MessageBubbleProps) {
   const isUser = message.role === 'user';
-  
+  // Assistant replies are always rendered; user messages show as typed by default
+  const [renderUserMarkdown, setRenderUserMarkdown] = useState(false);
+  const renderMarkdown = !isUser || renderUserMarkdown;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedContent, setEditedContent] = useState(message.content);
+
+  const handleStartEdit = () => {
+    setEditedContent(message.content);
+    setIsEditing(true);
+  };
+
+  const handleSubmitEdit = async () => {
+    if (!onEdit || !editedContent.trim()) return;
+    setIsEditing(false);
+    await onEdit(editedContent);
+  };
+
+  if (message.role === 'tool') {
+    return <ToolStep message={message} summarized={summarized} branch={branch} />;
+  }
+
+  const actionClassName = 'hover:underline disabled:opacity-50 disabled:no-underline';
+
   return (
-    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4`}>
+    <div
+      id={`message-${message.id}`}
+      className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4 ${
+        summarized ? 'opacity-60' : ''
+      }`}
+    >
       <div
         className={`max-w-[80%] rounded-lg px-4 py-2 ${
           isUser
             ? 'bg-blue-600 text-white rounded-br-none'
             : 'bg-gray-200 text-gray-800 rounded-bl-none'
+        } ${highlighted ? 'ring-4 ring-yellow-300' : ''} ${
+          status === 'failed' ? 'ring-2 ring-red-400' : status === 'pending' ? 'opacity-70' : ''
         }`}
       >
-        <div className="whitespace-pre-wrap">{message.content}</div>
+        {isEditing ? (
+          <div className="min-w-[16rem]">
+            <textarea
+              value={editedContent}
+              onChange={(e) => setEditedContent(e.target.value)}
+              className="w-full p-2 text-gray-800 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[80px]"
+            />
+            <div className="mt-1 flex justify-end gap-2 text-sm">
+              <button type="button" onClick={() => setIsEditing(false)} className={actionClassName}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSubmitEdit}
+                disabled={actionsDisabled || !editedContent.trim()}
+                className={`font-medium ${actionClassName}`}
+              >
+                Save &amp; Submit
+              </button>
+            </div>
+          </div>
+        ) : renderMarkdown ? (
+          <MarkdownContent content={message.content} />
+        ) : (
+          <div className="whitespace-pre-wrap">{message.content}</div>
+        )}
+        {attachments.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {attachments.map((attachment) => (
+              <AttachmentChip key={attachment.id} attachment={attachment} />
+            ))}
+          </div>
+        )}
+        {citations && citations.length > 0 && (
+          <div className="mt-2 pt-2 border-t border-gray-300 text-xs">
+            <span className="font-medium">Sources</span>
+            <ol className="mt-1 space-y-0.5">
+              {citations.map((citation) => (
+                <li key={citation.index}>
+                  <Link
+                    href={`/knowledge/chunks/${citation.chunkId}`}
+                    className="text-blue-700 hover:underline"
+                  >
+                    [{citation.index}] {citation.documentName}, part {citation.chunkIndex + 1}
+                  </Link>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
         <div
-          className={`text-xs mt-1 ${
+          className={`text-xs mt-1 flex flex-wrap items-center gap-x-1 ${
             isUser ? 'text-blue-200' : 'text-gray-500'
           }`}
         >
-          {formatTimestamp(message.created_at)}
+          {branch && branch.count > 1 && <BranchControls {...branch} />}
+          {author && <span className="font-medium">{author} ·</span>}
+          <span>{formatTimestamp(message.created_at)}</span>
+          {status === 'pending' && <span>· Sending…</span>}
+          {status === 'failed' && <span className="font-medium">· Not sent</span>}
+          {summarized && <span>· Summarized</span>}
+          {message.stopped && <span>· Stopped</span>}
+          {isUser && (
+            <>
+              <span>·</span>
+              <button
+                type="button"
+                onClick={() => setRenderUserMarkdown((prev) => !prev)}
+                className={actionClassName}
+              >
+                {renderUserMarkdown ? 'Show raw' : 'Show Markdown'}
+              </button>
+            </>
+          )}
+          {onEdit && !isEditing && (
+            <>
+              <span>·</span>
+              <button
+                type="button"
+                onClick={handleStartEdit}
+                disabled={actionsDisabled}
+                className={actionClassName}
+              >
+                Edit
+              </button>
+            </>
+          )}
+          {onRegenerate && (
+            <>
+              <span>·</span>
+              <button
+                type="button"
+                onClick={onRegenerate}
+                disabled={actionsDisabled}
+                className={actionClassName}
+              >
+                Regenerate
+              </button>
+            </>
+          )}
+          {onContinue && (
+            <>
+              <span>·</span>
+              <button
+                type="button"
+                onClick={onContinue}
+                disabled={actionsDisabled}
+                className={actionClassName}
+              >
+                Continue
+              </button>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,327 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from './AuthContext';
+import {
+  BUILT_IN_VARIABLES,
+  getCustomVariables,
+  MAX_PROMPT_LENGTH,
+  MAX_PROMPT_NAME_LENGTH,
+  SavedPrompt,
+} from '@/lib/prompts';
+
+function PromptForm({
+  initialName = '',
+  initialContent = '',
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialName?: string;
+  initialContent?: string;
+  submitLabel: string;
+  onSubmit: (name: string, content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [name, setName] = useState(initialName);
+  const [content, setContent] = useState(initialContent);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit(name.trim(), content);
+    setIsSaving(false);
+    if (saved && !onCancel) {
+      setName('');
+      setContent('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name, e.g. SQL helper"
+        maxLength={MAX_PROMPT_NAME_LENGTH}
+        className="w-full mb-2 p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        required
+      />
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder="You are an expert in {{database}}. Today is {{date}}."
+        maxLength={MAX_PROMPT_LENGTH}
+        className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[100px]"
+        required
+      />
+      <div className="mt-2 flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1 text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving || !name.trim() || !content.trim()}
+          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function PromptLibrary() {
+  const { user } = useAuth();
+  const [prompts, setPrompts] = useState<SavedPrompt[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchPrompts = async () => {
+      const { data, error } = await supabase
+        .from('prompts')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching prompt library:', error);
+        setError('Could not load your prompts. Please try again.');
+        return;
+      }
+      setPrompts(data as SavedPrompt[]);
+    };
+
+    fetchPrompts();
+  }, [user]);
+
+  const replacePrompt = (prompt: SavedPrompt) => {
+    setPrompts((prev) =>
+      [...prev.filter((item) => item.id !== prompt.id), prompt].sort((a, b) =>
+        a.name.localeCompare(b.name)
+      )
+    );
+  };
+
+  const handleCreate = async (name: string, content: string) => {
+    if (!user) return false;
+    setError(null);
+
+    const { data, error } = await supabase
+      .from('prompts')
+      .insert({ user_id: user.id, name, content })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating prompt:', error);
+      setError('Could not save the prompt. Please try again.');
+      return false;
+    }
+    replacePrompt(data as SavedPrompt);
+    return true;
+  };
+
+  const handleUpdate = async (id: string, name: string, content: string) => {
+    if (!user) return false;
+    setError(null);
+
+    const { data, error } = await supabase
+      .from('prompts')
+      .update({ name, content })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating prompt:', error);
+      setError('Could not save the prompt. Please try again.');
+      return false;
+    }
+    replacePrompt(data as SavedPrompt);
+    setEditingId(null);
+    return true;
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!user) return;
+    setError(null);
+
+    const { error } = await supabase.from('prompts').delete().eq('id', id).eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting prompt:', error);
+      setError('Could not delete the prompt. Please try again.');
+      return;
+    }
+    setPrompts((prev) => prev.filter((item) => item.id !== id));
+    setConfirmingDeleteId(null);
+  };
+
+  // Creates or revokes the copy link through the server, which makes the token
+  const setCopyLink = async (id: string, enabled: boolean) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/prompts/${id}/share`, {
+        method: enabled ? 'PUT' : 'DELETE',
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error);
+      replacePrompt(body.prompt as SavedPrompt);
+    } catch (error) {
+      console.error('Error updating copy link:', error);
+      setError('Could not update the copy link. Please try again.');
+    }
+  };
+
+  const copyLinkUrl = (token: string) => `${window.location.origin}/prompts/copy/${token}`;
+
+  const handleCopyLink = async (prompt: SavedPrompt) => {
+    if (!prompt.share_token) return;
+    try {
+      await navigator.clipboard.writeText(copyLinkUrl(prompt.share_token));
+      setCopiedId(prompt.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  return (
+    <div>
+      <div className="bg-white shadow rounded-lg p-4 sm:p-6 mb-8">
+        <h2 className="text-lg font-medium text-gray-900 mb-2">New Prompt</h2>
+        <p className="mb-4 text-sm text-gray-600">
+          Built-in variables:{' '}
+          {Object.entries(BUILT_IN_VARIABLES).map(([name, description], index) => (
+            <span key={name} title={description}>
+              {index > 0 && ', '}
+              <code>{`{{${name}}}`}</code>
+            </span>
+          ))}
+          . Any other <code>{'{{name}}'}</code> is a field you fill in per chat.
+        </p>
+        <PromptForm submitLabel="Add to Library" onSubmit={handleCreate} />
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">{error}</div>}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <h2 className="px-4 py-5 sm:px-6 text-lg font-medium text-gray-900">Your Prompts</h2>
+        {prompts.length === 0 ? (
+          <div className="px-4 py-5 sm:px-6 text-center text-gray-500 border-t border-gray-200">
+            No saved prompts yet.
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 border-t border-gray-200">
+            {prompts.map((prompt) => {
+              const customVariables = getCustomVariables(prompt.content);
+
+              return (
+                <li key={prompt.id} className="px-4 py-4 sm:px-6">
+                  {editingId === prompt.id ? (
+                    <PromptForm
+                      initialName={prompt.name}
+                      initialContent={prompt.content}
+                      submitLabel="Save"
+                      onSubmit={(name, content) => handleUpdate(prompt.id, name, content)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : (
+                    <>
+                      <div className="flex justify-between items-start gap-4">
+                        <h3 className="font-medium text-gray-900">{prompt.name}</h3>
+                        <div className="flex gap-3 text-sm shrink-0">
+                          <button
+                            onClick={() => setEditingId(prompt.id)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Edit
+                          </button>
+                          {prompt.share_token ? (
+                            <button
+                              onClick={() => setCopyLink(prompt.id, false)}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              Revoke copy link
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => setCopyLink(prompt.id, true)}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              Create copy link
+                            </button>
+                          )}
+                          {confirmingDeleteId === prompt.id ? (
+                            <>
+                              <button
+                                onClick={() => handleDelete(prompt.id)}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                Confirm delete
+                              </button>
+                              <button
+                                onClick={() => setConfirmingDeleteId(null)}
+                                className="text-gray-600 hover:text-gray-800"
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          ) : (
+                            <button
+                              onClick={() => setConfirmingDeleteId(prompt.id)}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap line-clamp-4">
+                        {prompt.content}
+                      </p>
+                      {customVariables.length > 0 && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          Fields: {customVariables.join(', ')}
+                        </p>
+                      )}
+                      {prompt.share_token && (
+                        <div className="mt-2 flex items-center gap-2 text-sm">
+                          <input
+                            type="text"
+                            value={copyLinkUrl(prompt.share_token)}
+                            readOnly
+                            onFocus={(e) => e.target.select()}
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-gray-700"
+                          />
+                          <button
+                            onClick={() => handleCopyLink(prompt)}
+                            className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md"
+                          >
+                            {copiedId === prompt.id ? 'Copied!' : 'Copy'}
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
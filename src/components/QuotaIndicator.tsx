@@ -0,0 +1,32 @@
+'use client';
+
+import type { QuotaStatus, QuotaWindow } from '@/lib/quotas';
+
+interface QuotaIndicatorProps {
+  quota: QuotaStatus;
+}
+
+export default function QuotaIndicator({ quota }: QuotaIndicatorProps) {
+  const windows = (
+    [
+      ['today', quota.daily],
+      ['this month', quota.monthly],
+    ] as [string, QuotaWindow][]
+  ).filter(([, window]) => window.remaining !== null);
+  if (windows.length === 0) return null;
+
+  // The quota that runs out first is the one that matters
+  const [label, tightest] = windows.reduce((a, b) => (b[1].remaining! < a[1].remaining! ? b : a));
+  const blocked = tightest.remaining === 0;
+
+  return (
+    <div
+      className={`text-xs ${blocked ? 'text-red-600' : 'text-gray-500'}`}
+      title={windows
+        .map(([name, window]) => `${window.used.toLocaleString()} of ${window.limit!.toLocaleString()} tokens used ${name}`)
+        .join('\n')}
+    >
+      {tightest.remaining!.toLocaleString()} tokens left {label}
+    </div>
+  );
+}
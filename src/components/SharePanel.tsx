@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ChatShare } from '@/lib/chatShare';
+
+interface SharePanelProps {
+  chatId: string;
+}
+
+export default function SharePanel({ chatId }: SharePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [share, setShare] = useState<ChatShare | null>(null);
+  const [includeSystemPrompt, setIncludeSystemPrompt] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchShare = async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/chats/${chatId}/share`);
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error);
+        setShare(body.share);
+        setIncludeSystemPrompt(body.share?.include_system_prompt ?? false);
+      } catch (error) {
+        console.error('Error fetching share link:', error);
+        setError('Could not load the share link.');
+      }
+    };
+
+    fetchShare();
+  }, [isOpen, chatId]);
+
+  const shareUrl = share ? `${window.location.origin}/share/${share.token}` : null;
+
+  const saveShare = async (include: boolean) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/chats/${chatId}/share`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ includeSystemPrompt: include }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error);
+      setShare(body.share);
+      setIncludeSystemPrompt(body.share.include_system_prompt);
+    } catch (error) {
+      console.error('Error saving share link:', error);
+      setError('Could not save the share link. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/chats/${chatId}/share`, { method: 'DELETE' });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error);
+      setShare(null);
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      setError('Could not revoke the share link. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm text-blue-600 hover:text-blue-800"
+      >
+        {isOpen ? 'Close sharing' : 'Share'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-2 w-80 p-4 bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+          <p className="mb-3 text-gray-600">
+            Anyone with the link can read this chat without signing in. Your email is never shown.
+          </p>
+
+          {error && (
+            <div className="mb-3 p-2 bg-red-100 text-red-700 rounded-md">{error}</div>
+          )}
+
+          <label className="flex items-center gap-2 mb-3">
+            <input
+              type="checkbox"
+              checked={includeSystemPrompt}
+              onChange={(e) => {
+                setIncludeSystemPrompt(e.target.checked);
+                // An existing link picks the change up right away
+                if (share) saveShare(e.target.checked);
+              }}
+              disabled={isSaving}
+            />
+            Include the system prompt
+          </label>
+
+          {shareUrl ? (
+            <>
+              <input
+                type="text"
+                value={shareUrl}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                className="w-full mb-2 px-2 py-1 border border-gray-300 rounded-md text-gray-700"
+              />
+              <div className="flex justify-between">
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md"
+                >
+                  {copied ? 'Copied!' : 'Copy link'}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleRevoke}
+                  disabled={isSaving}
+                  className="px-3 py-1 text-red-600 hover:text-red-800 disabled:opacity-50"
+                >
+                  Revoke link
+                </button>
+              </div>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={() => saveShare(includeSystemPrompt)}
+              disabled={isSaving}
+              className="w-full px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50"
+            >
+              {isSaving ? 'Creating...' : 'Create share link'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
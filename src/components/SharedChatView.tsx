@@ -0,0 +1,107 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { SharedChat } from '@/lib/chatShare';
+import { getActivePath, groupChildren, parentKey } from '@/lib/messageTree';
+import { formatTimestamp } from '@/utils/formatTimestamp';
+import MessageBubble from './MessageBubble';
+
+interface SharedChatViewProps {
+  token: string;
+}
+
+export default function SharedChatView({ token }: SharedChatViewProps) {
+  const [chat, setChat] = useState<SharedChat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Chosen child per parent; unset levels follow the newest branch
+  const [selections, setSelections] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const fetchChat = async () => {
+      try {
+        const response = await fetch(`/api/share/${token}`);
+        const body = await response.json();
+        if (!response.ok) {
+          setError(body.error || 'This chat could not be loaded.');
+          return;
+        }
+        setChat(body.chat as SharedChat);
+      } catch (error) {
+        console.error('Error fetching shared chat:', error);
+        setError('This chat could not be loaded. Please try again.');
+      }
+    };
+
+    fetchChat();
+  }, [token]);
+
+  const { activePath, children } = useMemo(
+    () => ({
+      activePath: getActivePath(chat?.messages || [], selections),
+      children: groupChildren(chat?.messages || []),
+    }),
+    [chat, selections]
+  );
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-red-600">{error}</div>
+      </div>
+    );
+  }
+
+  if (!chat) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b">
+        <h2 className="text-xl font-semibold">{chat.title}</h2>
+        <p className="text-sm text-gray-500">
+          Shared conversation · started {formatTimestamp(chat.created_at)} · read-only
+        </p>
+      </div>
+
+      {chat.system_prompt && (
+        <div className="p-4 border-b bg-gray-50 text-sm">
+          <div className="font-medium text-gray-700 mb-1">System prompt</div>
+          <div className="whitespace-pre-wrap text-gray-600">{chat.system_prompt}</div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {activePath.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-gray-500">
+            This conversation has no messages yet.
+          </div>
+        ) : (
+          activePath.map((message) => {
+            const siblings = children.get(parentKey(message.parent_id)) || [message];
+
+            return (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                branch={{
+                  index: siblings.indexOf(message),
+                  count: siblings.length,
+                  onSelect: (siblingIndex) =>
+                    setSelections((prev) => ({
+                      ...prev,
+                      [parentKey(message.parent_id)]: siblings[siblingIndex].id,
+                    })),
+                }}
+              />
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { supabase, Chat } from '@/lib/supabaseClient';
+import { ChatRole, ReceivedInvitation, ROLE_LABELS } from '@/lib/chatMembers';
+
+interface SharedChatsProps {
+  userId: string;
+}
+
+type SharedChat = {
+  role: ChatRole;
+  chat: Chat;
+};
+
+// Invitations waiting for the user and the chats others have shared with
+// them, for the chat list
+export default function SharedChats({ userId }: SharedChatsProps) {
+  const router = useRouter();
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([]);
+  const [sharedChats, setSharedChats] = useState<SharedChat[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchInvitations = useCallback(async () => {
+    const { data, error } = await supabase.rpc('list_chat_invitations');
+    if (error) {
+      console.error('Error fetching invitations:', error);
+      return;
+    }
+    setInvitations(data as ReceivedInvitation[]);
+  }, []);
+
+  const fetchSharedChats = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('chat_members')
+      .select('role, chats(*)')
+      .eq('user_id', userId)
+      .neq('role', 'owner')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching shared chats:', error);
+      return;
+    }
+    setSharedChats(
+      (data as unknown as { role: ChatRole; chats: Chat | null }[])
+        .filter((row) => row.chats)
+        .map((row) => ({ role: row.role, chat: row.chats as Chat }))
+    );
+  }, [userId]);
+
+  useEffect(() => {
+    fetchInvitations();
+    fetchSharedChats();
+  }, [fetchInvitations, fetchSharedChats]);
+
+  const handleAccept = async (invitation: ReceivedInvitation) => {
+    setBusyId(invitation.id);
+    setError(null);
+    const { data, error } = await supabase.rpc('accept_chat_invitation', {
+      invitation_id: invitation.id,
+    });
+
+    if (error) {
+      console.error('Error accepting invitation:', error);
+      setError('Could not accept the invitation. It may have been revoked.');
+      setBusyId(null);
+      fetchInvitations();
+      return;
+    }
+    router.push(`/chat/${data as string}`);
+  };
+
+  const handleDecline = async (invitationId: string) => {
+    setBusyId(invitationId);
+    setError(null);
+    const { error } = await supabase.from('chat_invitations').delete().eq('id', invitationId);
+
+    if (error) {
+      console.error('Error declining invitation:', error);
+      setError('Could not decline the invitation. Please try again.');
+    } else {
+      setInvitations((prev) => prev.filter((invitation) => invitation.id !== invitationId));
+    }
+    setBusyId(null);
+  };
+
+  if (invitations.length === 0 && sharedChats.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6">
+        <h2 className="text-lg font-medium text-gray-900">Shared With You</h2>
+        {error && <div className="mt-2 p-2 bg-red-100 text-red-700 rounded-md text-sm">{error}</div>}
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {invitations.map((invitation) => (
+          <li
+            key={invitation.id}
+            className="px-4 py-3 sm:px-6 flex items-center justify-between gap-4 bg-blue-50"
+          >
+            <div className="min-w-0">
+              <p className="truncate font-medium text-gray-900">{invitation.chat_title}</p>
+              <p className="text-sm text-gray-600">
+                {invitation.invited_by_email || 'Someone'} invited you as{' '}
+                {ROLE_LABELS[invitation.role].toLowerCase()}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <button
+                type="button"
+                onClick={() => handleAccept(invitation)}
+                disabled={busyId !== null}
+                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDecline(invitation.id)}
+                disabled={busyId !== null}
+                className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </div>
+          </li>
+        ))}
+        {sharedChats.map(({ role, chat }) => (
+          <li key={chat.id} className="px-4 py-3 sm:px-6 flex items-center justify-between gap-4">
+            <Link href={`/chat/${chat.id}`} className="truncate text-blue-600 hover:text-blue-800">
+              {chat.title}
+            </Link>
+            <span className="text-xs text-gray-500 shrink-0">{ROLE_LABELS[role]}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
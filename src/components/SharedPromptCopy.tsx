@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { SavedPrompt } from '@/lib/prompts';
+
+interface SharedPromptCopyProps {
+  token: string;
+}
+
+export default function SharedPromptCopy({ token }: SharedPromptCopyProps) {
+  const [prompt, setPrompt] = useState<Pick<SavedPrompt, 'name' | 'content'> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCopying, setIsCopying] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const fetchPrompt = async () => {
+      try {
+        const response = await fetch(`/api/prompts/shared/${token}`);
+        const body = await response.json();
+        if (!response.ok) {
+          setError(body.error || 'This prompt could not be loaded.');
+          return;
+        }
+        setPrompt(body.prompt);
+      } catch (error) {
+        console.error('Error fetching shared prompt:', error);
+        setError('This prompt could not be loaded. Please try again.');
+      }
+    };
+
+    fetchPrompt();
+  }, [token]);
+
+  const handleCopy = async () => {
+    setIsCopying(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/prompts/shared/${token}`, { method: 'POST' });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error);
+      setCopied(true);
+    } catch (error) {
+      console.error('Error copying prompt:', error);
+      setError('Could not add the prompt to your library. Please try again.');
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  if (!prompt) {
+    return error ? (
+      <div className="p-3 bg-red-100 text-red-700 rounded-md">{error}</div>
+    ) : (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-4 sm:p-6">
+      <p className="text-sm text-gray-500 mb-1">Someone shared a system prompt with you</p>
+      <h2 className="text-lg font-medium text-gray-900 mb-2">{prompt.name}</h2>
+      <p className="mb-4 p-3 bg-gray-100 rounded-md text-sm text-gray-700 whitespace-pre-wrap">
+        {prompt.content}
+      </p>
+
+      {error && <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">{error}</div>}
+
+      {copied ? (
+        <p className="text-green-700">
+          Added to your library.{' '}
+          <Link href="/prompts" className="text-blue-600 hover:text-blue-800">
+            View your prompts
+          </Link>
+        </p>
+      ) : (
+        <button
+          onClick={handleCopy}
+          disabled={isCopying}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {isCopying ? 'Adding...' : 'Add to My Library'}
+        </button>
+      )}
+    </div>
+  );
+}
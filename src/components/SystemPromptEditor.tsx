@@ -1,24 +1,77 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabaseClient';
+import { useAuth } from './AuthContext';
+import {
+  BUILT_IN_VARIABLES,
+  getCustomVariables,
+  MAX_PROMPT_NAME_LENGTH,
+  SavedPrompt,
+} from '@/lib/prompts';
 
 interface SystemPromptEditorProps {
   initialPrompt: string;
-  onSave: (prompt: string) => Promise<void>;
+  // Values of the prompt's custom {{fields}}
+  initialVariables: Record<string, string>;
+  onSave: (prompt: string, variables: Record<string, string>) => Promise<void>;
+  // Viewers of a shared chat see the prompt but can't edit it
+  readOnly?: boolean;
 }
 
 export default function SystemPromptEditor({
   initialPrompt,
+  initialVariables,
   onSave,
+  readOnly = false,
 }: SystemPromptEditorProps) {
+  const { user } = useAuth();
   const [prompt, setPrompt] = useState(initialPrompt);
+  const [variables, setVariables] = useState(initialVariables);
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [library, setLibrary] = useState<SavedPrompt[]>([]);
+  const [libraryName, setLibraryName] = useState<string | null>(null);
+  const [libraryMessage, setLibraryMessage] = useState<string | null>(null);
+
+  const customVariables = getCustomVariables(prompt);
+
+  // Show changes saved elsewhere, e.g. in another tab, unless mid-edit
+  useEffect(() => {
+    if (isEditing) return;
+    setPrompt(initialPrompt);
+    setVariables(initialVariables);
+  }, [initialPrompt, initialVariables, isEditing]);
+
+  useEffect(() => {
+    if (!isEditing || !user) return;
+
+    const fetchLibrary = async () => {
+      const { data, error } = await supabase
+        .from('prompts')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching prompt library:', error);
+        return;
+      }
+      setLibrary(data as SavedPrompt[]);
+    };
+
+    fetchLibrary();
+  }, [isEditing, user]);
 
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      await onSave(prompt);
+      // Values of fields the prompt no longer uses are dropped
+      const usedVariables = Object.fromEntries(
+        customVariables.map((name) => [name, variables[name] || ''])
+      );
+      await onSave(prompt, usedVariables);
+      setVariables(usedVariables);
       setIsEditing(false);
     } catch (error) {
       console.error('Error saving system prompt:', error);
@@ -27,19 +80,63 @@ export default function SystemPromptEditor({
     }
   };
 
+  const handleCancel = () => {
+    setPrompt(initialPrompt);
+    setVariables(initialVariables);
+    setLibraryName(null);
+    setLibraryMessage(null);
+    setIsEditing(false);
+  };
+
+  const handleSaveToLibrary = async () => {
+    if (!user || !libraryName?.trim()) return;
+
+    const { data, error } = await supabase
+      .from('prompts')
+      .insert({ user_id: user.id, name: libraryName.trim(), content: prompt })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving prompt to library:', error);
+      setLibraryMessage('Could not save the prompt to your library.');
+      return;
+    }
+
+    setLibrary((prev) =>
+      [...prev, data as SavedPrompt].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setLibraryName(null);
+    setLibraryMessage(`Saved "${(data as SavedPrompt).name}" to your library.`);
+  };
+
   if (!isEditing) {
     return (
       <div className="mb-4 p-4 bg-gray-100 rounded-lg">
         <div className="flex justify-between items-center mb-2">
           <h3 className="text-sm font-medium text-gray-700">System Prompt</h3>
-          <button
-            onClick={() => setIsEditing(true)}
-            className="text-sm text-blue-600 hover:text-blue-800"
-          >
-            Edit
-          </button>
+          {!readOnly && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Edit
+            </button>
+          )}
         </div>
         <p className="text-sm text-gray-600 whitespace-pre-wrap">{prompt}</p>
+        {customVariables.length > 0 && (
+          <dl className="mt-2 text-xs text-gray-600">
+            {customVariables.map((name) => (
+              <div key={name} className="flex gap-1">
+                <dt className="font-mono">{`{{${name}}}`}:</dt>
+                <dd className={variables[name] ? '' : 'text-amber-600'}>
+                  {variables[name] || 'not set'}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
       </div>
     );
   }
@@ -49,19 +146,97 @@ export default function SystemPromptEditor({
       <div className="flex justify-between items-center mb-2">
         <h3 className="text-sm font-medium text-gray-700">Edit System Prompt</h3>
         <button
-          onClick={() => setIsEditing(false)}
+          onClick={handleCancel}
           className="text-sm text-gray-600 hover:text-gray-800"
         >
           Cancel
         </button>
       </div>
+      {library.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            const saved = library.find((item) => item.id === e.target.value);
+            if (saved) setPrompt(saved.content);
+          }}
+          className="w-full mb-2 p-2 text-sm border border-gray-300 rounded-md bg-white"
+        >
+          <option value="">Load a prompt from your library...</option>
+          {library.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+      )}
       <textarea
         value={prompt}
         onChange={(e) => setPrompt(e.target.value)}
         className="w-full p-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[100px]"
         placeholder="Enter system instructions for the AI..."
       />
-      <div className="mt-2 flex justify-end">
+      <p className="mt-1 text-xs text-gray-500">
+        Variables:{' '}
+        {Object.entries(BUILT_IN_VARIABLES).map(([name, description], index) => (
+          <span key={name} title={description}>
+            {index > 0 && ', '}
+            <code>{`{{${name}}}`}</code>
+          </span>
+        ))}
+        . Any other <code>{'{{name}}'}</code> becomes a field below.
+      </p>
+
+      {customVariables.map((name) => (
+        <div key={name} className="mt-2 flex items-center gap-2 text-sm">
+          <label htmlFor={`variable-${name}`} className="w-32 font-mono text-gray-700 truncate">
+            {name}
+          </label>
+          <input
+            id={`variable-${name}`}
+            type="text"
+            value={variables[name] || ''}
+            onChange={(e) => setVariables((prev) => ({ ...prev, [name]: e.target.value }))}
+            className="flex-1 p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      ))}
+
+      {libraryMessage && <p className="mt-2 text-xs text-gray-600">{libraryMessage}</p>}
+
+      <div className="mt-2 flex justify-between items-center gap-2">
+        {libraryName === null ? (
+          <button
+            onClick={() => {
+              setLibraryName('');
+              setLibraryMessage(null);
+            }}
+            disabled={!prompt.trim()}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            Save to library
+          </button>
+        ) : (
+          <div className="flex items-center gap-2 text-sm">
+            <input
+              type="text"
+              value={libraryName}
+              onChange={(e) => setLibraryName(e.target.value)}
+              placeholder="Name, e.g. Code reviewer"
+              maxLength={MAX_PROMPT_NAME_LENGTH}
+              className="p-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleSaveToLibrary}
+              disabled={!libraryName.trim()}
+              className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              Add
+            </button>
+            <button onClick={() => setLibraryName(null)} className="text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+          </div>
+        )}
         <button
           onClick={handleSave}
           disabled={isSaving}
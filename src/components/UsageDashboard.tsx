@@ -0,0 +1,158 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type { UsageSummary, UsageTotals } from '@/lib/usage';
+
+const PERIODS = [7, 30, 90];
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+function UsageTable<T extends UsageTotals>({
+  title,
+  label,
+  rows,
+  renderLabel,
+}: {
+  title: string;
+  label: string;
+  rows: T[];
+  renderLabel: (row: T) => React.ReactNode;
+}) {
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden mb-8">
+      <h2 className="px-4 py-5 sm:px-6 text-lg font-medium text-gray-900">{title}</h2>
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50 text-left text-gray-500">
+          <tr>
+            <th className="px-4 py-2 sm:px-6 font-medium">{label}</th>
+            <th className="px-4 py-2 font-medium text-right">Requests</th>
+            <th className="px-4 py-2 font-medium text-right">Prompt tokens</th>
+            <th className="px-4 py-2 font-medium text-right">Completion tokens</th>
+            <th className="px-4 py-2 font-medium text-right">Avg latency</th>
+            <th className="px-4 py-2 sm:px-6 font-medium text-right">Est. cost</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={6} className="px-4 py-5 sm:px-6 text-gray-500 text-center">
+                No usage in this period.
+              </td>
+            </tr>
+          ) : (
+            rows.map((row, index) => (
+              <tr key={index}>
+                <td className="px-4 py-2 sm:px-6 text-gray-900">{renderLabel(row)}</td>
+                <td className="px-4 py-2 text-right">{row.requests.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right">{row.promptTokens.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right">{row.completionTokens.toLocaleString()}</td>
+                <td className="px-4 py-2 text-right">{row.averageLatencyMs.toLocaleString()} ms</td>
+                <td className="px-4 py-2 sm:px-6 text-right">{formatCost(row.cost)}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function UsageDashboard() {
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      setError(null);
+      try {
+        const response = await fetch(`/api/usage?days=${days}`);
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error || 'Failed to load usage');
+        setSummary(body as UsageSummary);
+      } catch (error) {
+        console.error('Error fetching usage:', error);
+        setError('Could not load usage. Please try again.');
+      }
+    };
+
+    fetchUsage();
+  }, [days]);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2 text-sm">
+          {PERIODS.map((period) => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={`px-3 py-1 rounded-md ${
+                period === days ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 shadow'
+              }`}
+            >
+              Last {period} days
+            </button>
+          ))}
+        </div>
+        {/* The session cookie authenticates the download */}
+        <a
+          href={`/api/usage?days=${days}&format=csv`}
+          download
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Download CSV
+        </a>
+      </div>
+
+      {error && <div className="mb-6 p-2 text-sm bg-red-100 text-red-700 rounded-md">{error}</div>}
+
+      {!summary ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+            {[
+              ['Requests', summary.totals.requests.toLocaleString()],
+              ['Prompt tokens', summary.totals.promptTokens.toLocaleString()],
+              ['Completion tokens', summary.totals.completionTokens.toLocaleString()],
+              ['Estimated cost', formatCost(summary.totals.cost)],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-white shadow rounded-lg p-4">
+                <p className="text-sm text-gray-500">{label}</p>
+                <p className="text-2xl font-semibold text-gray-900">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <UsageTable title="By day" label="Day (UTC)" rows={summary.byDay} renderLabel={(row) => row.day} />
+          <UsageTable
+            title="By chat"
+            label="Chat"
+            rows={summary.byChat}
+            renderLabel={(row) =>
+              row.chatId ? (
+                <Link href={`/chat/${row.chatId}`} className="text-blue-600 hover:text-blue-800">
+                  {row.title}
+                </Link>
+              ) : (
+                <span className="text-gray-500">Knowledge bases and deleted chats</span>
+              )
+            }
+          />
+          <UsageTable title="By model" label="Model" rows={summary.byModel} renderLabel={(row) => row.model} />
+
+          <p className="text-xs text-gray-500">
+            Costs are estimates from the configured price table. Summaries and generated titles
+            are included; requests to models without a known price count as $0.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { ChatProvider, ProviderInfo } from './types';
+import { createOpenAIProvider } from './openai';
+import { createMockProvider } from './mock';
+import { ApiError } from '@/lib/errors';
+
+export * from './types';
+
+type ProviderName = 'openai' | 'openai-compatible' | 'mock';
+
+let provider: ChatProvider | null = null;
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set for AI_PROVIDER=${process.env.AI_PROVIDER || 'openai'}`);
+  }
+  return value;
+}
+
+function optionalNumberEnv(name: string): number | undefined {
+  const value = process.env[name];
+  return value ? Number(value) : undefined;
+}
+
+function createProvider(name: ProviderName): ChatProvider {
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider({
+        name,
+        apiKey: requireEnv('OPENAI_API_KEY'),
+        defaultModel: process.env.AI_MODEL || 'gpt-3.5-turbo',
+        maxOutputTokens: optionalNumberEnv('AI_MAX_OUTPUT_TOKENS'),
+        contextWindow: optionalNumberEnv('AI_CONTEXT_WINDOW'),
+        embeddingModel: process.env.AI_EMBEDDING_MODEL || 'text-embedding-3-small',
+      });
+    case 'openai-compatible':
+      // Local servers usually ignore the key, but the SDK requires one
+      return createOpenAIProvider({
+        name,
+        apiKey: process.env.AI_API_KEY || 'not-needed',
+        baseURL: requireEnv('AI_BASE_URL'),
+        defaultModel: requireEnv('AI_MODEL'),
+        maxOutputTokens: optionalNumberEnv('AI_MAX_OUTPUT_TOKENS'),
+        contextWindow: optionalNumberEnv('AI_CONTEXT_WINDOW'),
+        // Optional; knowledge bases are unavailable without it
+        embeddingModel: process.env.AI_EMBEDDING_MODEL,
+      });
+    case 'mock':
+      return createMockProvider(optionalNumberEnv('AI_CONTEXT_WINDOW'));
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}"`);
+  }
+}
+
+/**
+ * Returns the chat provider selected by the AI_PROVIDER environment variable
+ * @returns Provider instance, created on first use and reused afterwards
+ */
+export function getChatProvider(): ChatProvider {
+  if (!provider) {
+    provider = createProvider((process.env.AI_PROVIDER || 'openai') as ProviderName);
+  }
+  return provider;
+}
+
+/**
+ * Describes the active provider for validating and editing chat settings
+ * @returns Provider name, default model, available models and capabilities
+ * @throws ApiError 502 when the provider cannot list its models
+ */
+export async function getProviderInfo(): Promise<ProviderInfo> {
+  const chatProvider = getChatProvider();
+
+  let models;
+  try {
+    models = await chatProvider.listModels();
+  } catch (error) {
+    console.error('Error listing models:', error);
+    throw new ApiError(502, 'provider_unavailable', 'Failed to list models from the AI provider');
+  }
+
+  return {
+    provider: chatProvider.name,
+    defaultModel: chatProvider.defaultModel,
+    models: models.map((model) => model.id),
+    capabilities: chatProvider.capabilities,
+  };
+}
@@ -0,0 +1,142 @@
+import {
+  ChatProvider,
+  ChatCompletionMessage,
+  CompletionChunk,
+  CompletionOptions,
+  EMBEDDING_DIMENSIONS,
+  TokenUsage,
+  ToolCall,
+} from './types';
+import { countMessageTokens } from '@/lib/tokens';
+
+const MOCK_MODEL = 'mock-echo';
+const MOCK_EMBEDDING_MODEL = 'mock-embed';
+
+// The reply depends only on the last user message, so tests and offline
+// development always see the same output for the same input
+function mockReply(messages: ChatCompletionMessage[], options: CompletionOptions): string {
+  const lastMessage = messages[messages.length - 1];
+  const lastUserMessage = [...messages].reverse().find((message) => message.role === 'user');
+  let reply =
+    lastMessage?.role === 'tool'
+      ? `This is a mock reply to the tool result: ${lastMessage.content}`
+      : `This is a mock reply to: ${lastUserMessage?.content ?? ''}`;
+
+  // Honour stop sequences and the token limit (one word counts as one token)
+  for (const stop of options.stop || []) {
+    const index = reply.indexOf(stop);
+    if (index !== -1) reply = reply.slice(0, index);
+  }
+  if (options.maxTokens) {
+    reply = (reply.match(/\S+\s*/g) || []).slice(0, options.maxTokens).join('');
+  }
+
+  return reply;
+}
+
+// A user message like `/tool calculator {"expression": "2 + 2"}` calls that
+// tool when tools are offered, so tool steps can be tried offline
+function mockToolCall(
+  messages: ChatCompletionMessage[],
+  options: CompletionOptions
+): ToolCall | null {
+  const lastMessage = messages[messages.length - 1];
+  if (!options.tools?.length || lastMessage?.role !== 'user') return null;
+
+  const match = lastMessage.content.match(/^\/tool\s+(\S+)\s*([\s\S]*)$/);
+  if (!match || !options.tools.some((tool) => tool.name === match[1])) return null;
+  return { id: `call_mock_${messages.length}`, name: match[1], arguments: match[2].trim() || '{}' };
+}
+
+function mockUsage(messages: ChatCompletionMessage[], reply: string): TokenUsage {
+  return {
+    promptTokens: countMessageTokens(messages),
+    completionTokens: (reply.match(/\S+/g) || []).length,
+  };
+}
+
+// Hashes each word into one dimension, so texts sharing words are similar
+// and knowledge base search can be tried offline
+function mockEmbedding(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) {
+      hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+    }
+    vector[hash % EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * Creates a provider that answers without any network access
+ * @param contextWindow Context window to report, small by default so
+ * summarization of long chats can be exercised offline
+ * @returns ChatProvider with deterministic, echo-based replies
+ */
+export function createMockProvider(contextWindow = 4096): ChatProvider {
+  return {
+    name: 'mock',
+    defaultModel: MOCK_MODEL,
+    embeddingModel: MOCK_EMBEDDING_MODEL,
+    capabilities: {
+      temperature: { min: 0, max: 2 },
+      topP: true,
+      maxOutputTokens: 4096,
+      maxStopSequences: 4,
+      tools: true,
+    },
+
+    async complete(messages, options = {}) {
+      const content = mockReply(messages, options);
+      return {
+        content,
+        model: options.model || MOCK_MODEL,
+        usage: mockUsage(messages, content),
+      };
+    },
+
+    async stream(messages, options = {}) {
+      const toolCall = mockToolCall(messages, options);
+      if (toolCall) {
+        return (async function* (): AsyncGenerator<CompletionChunk> {
+          yield { delta: '', toolCalls: [toolCall], usage: mockUsage(messages, '') };
+        })();
+      }
+
+      // Stream word by word, keeping the whitespace so chunks join back exactly
+      const reply = mockReply(messages, options);
+      const pieces = reply.match(/\S+\s*/g) || [];
+
+      return (async function* (): AsyncGenerator<CompletionChunk> {
+        for (const delta of pieces) {
+          options.signal?.throwIfAborted();
+          yield { delta };
+        }
+        yield { delta: '', usage: mockUsage(messages, reply) };
+      })();
+    },
+
+    async embed(texts) {
+      return {
+        embeddings: texts.map(mockEmbedding),
+        model: MOCK_EMBEDDING_MODEL,
+        usage: {
+          promptTokens: texts.reduce((sum, text) => sum + (text.match(/\S+/g) || []).length, 0),
+          completionTokens: 0,
+        },
+      };
+    },
+
+    async listModels() {
+      return [{ id: MOCK_MODEL }];
+    },
+
+    getContextWindow() {
+      return contextWindow;
+    },
+  };
+}
@@ -0,0 +1,226 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import {
+  ChatProvider,
+  ChatCompletionMessage,
+  CompletionOptions,
+  CompletionChunk,
+  EMBEDDING_DIMENSIONS,
+  ProviderCapabilities,
+  ToolCall,
+} from './types';
+
+export type OpenAIProviderConfig = {
+  name: string;
+  apiKey: string;
+  defaultModel: string;
+  // Set for OpenAI-compatible servers such as vLLM, llama.cpp or Ollama
+  baseURL?: string;
+  maxOutputTokens?: number;
+  // Overrides the built-in context window table, e.g. for local models
+  contextWindow?: number;
+  // Embedding model for knowledge bases; embeddings are unavailable without one
+  embeddingModel?: string;
+};
+
+// Context windows of common OpenAI models, matched by prefix (more specific prefixes first)
+const OPENAI_CONTEXT_WINDOWS: [string, number][] = [
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4.1', 1047576],
+  ['gpt-4-32k', 32768],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+];
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Maps provider-neutral options onto chat.completions parameters
+function toRequestParams(options: CompletionOptions, defaultModel: string) {
+  return {
+    model: options.model || defaultModel,
+    temperature: options.temperature,
+    top_p: options.topP,
+    max_tokens: options.maxTokens,
+    stop: options.stop,
+    tools: options.tools?.length
+      ? options.tools.map((tool) => ({ type: 'function' as const, function: tool }))
+      : undefined,
+  };
+}
+
+function toMessageParams(messages: ChatCompletionMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((message): ChatCompletionMessageParam => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId || '', content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+// Pads a vector to the stored length; longer vectors can't be stored
+function toStoredEmbedding(embedding: number[], model: string): number[] {
+  if (embedding.length > EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `Embedding model ${model} returns ${embedding.length} dimensions; at most ${EMBEDDING_DIMENSIONS} are supported`
+    );
+  }
+  return [...embedding, ...new Array(EMBEDDING_DIMENSIONS - embedding.length).fill(0)];
+}
+
+/**
+ * Creates a provider backed by the OpenAI chat completions API
+ * @param config Credentials, endpoint and default model
+ * @returns ChatProvider that talks to OpenAI or an OpenAI-compatible server
+ */
+export function createOpenAIProvider(config: OpenAIProviderConfig): ChatProvider {
+  const openai = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+  });
+
+  const capabilities: ProviderCapabilities = {
+    temperature: { min: 0, max: 2 },
+    topP: true,
+    maxOutputTokens: config.maxOutputTokens || 4096,
+    maxStopSequences: 4,
+    // OpenAI-compatible servers that can't call functions reject the request
+    tools: true,
+  };
+
+  return {
+    name: config.name,
+    defaultModel: config.defaultModel,
+    embeddingModel: config.embeddingModel || null,
+    capabilities,
+
+    async complete(messages: ChatCompletionMessage[], options: CompletionOptions = {}) {
+      const params = toRequestParams(options, config.defaultModel);
+
+      try {
+        const completion = await openai.chat.completions.create(
+          {
+            ...params,
+            messages: toMessageParams(messages),
+          },
+          { signal: options.signal }
+        );
+
+        return {
+          content: completion.choices[0]?.message.content || '',
+          model: completion.model || params.model,
+          usage: completion.usage && {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+          },
+        };
+      } catch (error) {
+        console.error('Error generating chat completion:', error);
+        throw error;
+      }
+    },
+
+    async stream(messages: ChatCompletionMessage[], options: CompletionOptions = {}) {
+      try {
+        // Aborting the signal closes the connection, so generation stops
+        // upstream too
+        const stream = await openai.chat.completions.create(
+          {
+            ...toRequestParams(options, config.defaultModel),
+            messages: toMessageParams(messages),
+            stream: true,
+            // Adds a final chunk with the token counts of the request
+            stream_options: { include_usage: true },
+          },
+          { signal: options.signal }
+        );
+
+        return (async function* (): AsyncGenerator<CompletionChunk> {
+          // Tool calls arrive in pieces, keyed by their position in the reply
+          const toolCalls: ToolCall[] = [];
+
+          for await (const chunk of stream) {
+            for (const piece of chunk.choices[0]?.delta?.tool_calls || []) {
+              const call = (toolCalls[piece.index] ??= { id: '', name: '', arguments: '' });
+              if (piece.id) call.id = piece.id;
+              if (piece.function?.name) call.name += piece.function.name;
+              if (piece.function?.arguments) call.arguments += piece.function.arguments;
+            }
+
+            const delta = chunk.choices[0]?.delta?.content || '';
+            if (chunk.usage) {
+              yield {
+                delta,
+                usage: {
+                  promptTokens: chunk.usage.prompt_tokens,
+                  completionTokens: chunk.usage.completion_tokens,
+                },
+              };
+            } else if (delta) {
+              yield { delta };
+            }
+          }
+
+          if (toolCalls.length > 0) {
+            yield { delta: '', toolCalls: toolCalls.filter(Boolean) };
+          }
+        })();
+      } catch (error) {
+        console.error('Error generating streaming chat completion:', error);
+        throw error;
+      }
+    },
+
+    async embed(texts: string[]) {
+      const model = config.embeddingModel;
+      if (!model) {
+        throw new Error(`No embedding model is configured for AI_PROVIDER=${config.name}`);
+      }
+
+      try {
+        const response = await openai.embeddings.create({ model, input: texts });
+        // Results carry their input's index; keep the input order
+        const embeddings = [...response.data]
+          .sort((a, b) => a.index - b.index)
+          .map((item) => toStoredEmbedding(item.embedding, model));
+
+        return {
+          embeddings,
+          model: response.model || model,
+          usage: response.usage && {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: 0,
+          },
+        };
+      } catch (error) {
+        console.error('Error creating embeddings:', error);
+        throw error;
+      }
+    },
+
+    getContextWindow(model: string) {
+      if (config.contextWindow) return config.contextWindow;
+      const match = OPENAI_CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix));
+      return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+    },
+
+    async listModels() {
+      const models = [];
+      for await (const model of openai.models.list()) {
+        models.push({ id: model.id });
+      }
+      return models;
+    },
+  };
+}
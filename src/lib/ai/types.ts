@@ -0,0 +1,138 @@
+// A function call requested by the model
+export type ToolCall = {
+  id: string;
+  name: string;
+  // JSON text as written by the model; it may not be valid
+  arguments: string;
+};
+
+// JSON Schema for a tool's arguments, limited to what tool definitions use
+export type JsonSchema = {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  additionalProperties?: boolean;
+};
+
+// A function the model may call
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+};
+
+export type ChatCompletionMessage = {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string;
+  // Calls made by an assistant message; their results follow as tool messages
+  toolCalls?: ToolCall[];
+  // The call a tool message answers
+  toolCallId?: string;
+};
+
+export type CompletionOptions = {
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  // Functions the model may call instead of answering
+  tools?: ToolDefinition[];
+  // Cancels the request; a stream stops with an error at its next chunk
+  signal?: AbortSignal;
+};
+
+// Token counts reported by the backend for one request
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type CompletionResult = {
+  content: string;
+  model: string;
+  // Missing when the backend does not report usage
+  usage?: TokenUsage;
+};
+
+// A piece of a streamed reply. Backends that report usage send it on the
+// last chunk, which may have an empty delta.
+export type CompletionChunk = {
+  delta: string;
+  usage?: TokenUsage;
+  // Complete tool calls, sent once the model has finished writing them
+  toolCalls?: ToolCall[];
+};
+
+// Length of every stored embedding; the knowledge_chunks.embedding column is
+// declared with it. Shorter vectors are zero-padded, which keeps cosine
+// similarity unchanged.
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export type EmbeddingResult = {
+  // One vector of EMBEDDING_DIMENSIONS per input, in input order
+  embeddings: number[][];
+  model: string;
+  usage?: TokenUsage;
+};
+
+export type ModelInfo = {
+  id: string;
+};
+
+// Generation parameters a provider accepts, used to validate chat settings
+export type ProviderCapabilities = {
+  temperature: { min: number; max: number };
+  topP: boolean;
+  maxOutputTokens: number;
+  maxStopSequences: number;
+  // Whether the backend supports function calling
+  tools: boolean;
+};
+
+// What GET /api/models returns; chat settings are validated against it
+export type ProviderInfo = {
+  provider: string;
+  defaultModel: string;
+  models: string[];
+  capabilities: ProviderCapabilities;
+};
+
+// Implemented by every LLM backend GhostChat can talk to
+export interface ChatProvider {
+  // Identifier used in logs and AI_PROVIDER
+  readonly name: string;
+  // Model used when a request does not name one
+  readonly defaultModel: string;
+  readonly capabilities: ProviderCapabilities;
+
+  // Generates a full reply in one call
+  complete(
+    messages: ChatCompletionMessage[],
+    options?: CompletionOptions
+  ): Promise<CompletionResult>;
+
+  // Starts a streamed reply. The request is sent when the promise is awaited,
+  // so connection and auth errors are thrown before any chunk is read.
+  stream(
+    messages: ChatCompletionMessage[],
+    options?: CompletionOptions
+  ): Promise<AsyncIterable<CompletionChunk>>;
+
+  // Model used for embeddings; null when the backend isn't configured for them
+  readonly embeddingModel: string | null;
+
+  // Embeds texts for knowledge base search
+  embed(texts: string[]): Promise<EmbeddingResult>;
+
+  // Models the backend can serve
+  listModels(): Promise<ModelInfo[]>;
+
+  // Maximum prompt plus reply tokens the model accepts
+  getContextWindow(model: string): number;
+}
@@ -0,0 +1,110 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Attachment, MAX_ATTACHMENT_CHARS, PDF_TYPE } from '@/lib/attachments';
+import { ApiError } from '@/lib/errors';
+
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+async function extractPdfText(data: Buffer): Promise<string> {
+  // Loaded on first use; pdf.js is large and only PDFs need it
+  const { extractText, getDocumentProxy } = await import('unpdf');
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { text } = await extractText(pdf, { mergePages: true });
+  return text;
+}
+
+/**
+ * Extracts the text of an uploaded file
+ * @param data File contents
+ * @param contentType Type from getAttachmentContentType
+ * @param maxChars Length to cut the text to
+ * @returns Text, cut to maxChars, and whether it was cut
+ * @throws ApiError 422 when the file can't be read as text
+ */
+export async function extractAttachmentText(
+  data: Buffer,
+  contentType: string,
+  maxChars = MAX_ATTACHMENT_CHARS
+): Promise<{ text: string; truncated: boolean }> {
+  let text: string;
+
+  if (contentType === PDF_TYPE) {
+    try {
+      text = await extractPdfText(data);
+    } catch (error) {
+      console.error('Error extracting PDF text:', error);
+      throw new ApiError(422, 'unreadable_file', 'The PDF could not be read');
+    }
+    if (!text.trim()) {
+      throw new ApiError(422, 'unreadable_file', 'The PDF has no text; scanned documents are not supported');
+    }
+  } else {
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    } catch {
+      throw new ApiError(422, 'unreadable_file', 'The file is not UTF-8 text');
+    }
+    if (text.includes('\u0000')) {
+      throw new ApiError(422, 'unreadable_file', 'The file is not a text file');
+    }
+  }
+
+  const truncated = text.length > maxChars;
+  return { text: truncated ? text.slice(0, maxChars) : text, truncated };
+}
+
+/**
+ * Appends attachments to the text of the message they were sent with, each
+ * between <attachment> delimiters
+ * @param content Text the user typed
+ * @param attachments Attachments of the message, oldest first
+ * @returns The message as the model sees it
+ */
+export function withAttachments(
+  content: string,
+  attachments: Pick<Attachment, 'name' | 'content_type' | 'extracted_text' | 'truncated'>[]
+): string {
+  if (attachments.length === 0) return content;
+
+  const blocks = attachments.map((attachment) => {
+    const name = attachment.name.replace(/"/g, "'");
+    // A closing tag inside the file would end the block early
+    const text = attachment.extracted_text.replace(/<\/attachment>/gi, '<\\/attachment>');
+    const note = attachment.truncated
+      ? `\n[The file was cut off after ${MAX_ATTACHMENT_CHARS.toLocaleString('en-US')} characters]`
+      : '';
+    return `<attachment name="${name}" type="${attachment.content_type}">\n${text}${note}\n</attachment>`;
+  });
+
+  return `${content}\n\nAttached files:\n\n${blocks.join('\n\n')}`;
+}
+
+/**
+ * Loads the attachments that were sent with messages of a chat
+ * @param supabaseClient Client for the current request
+ * @param chatId Chat to load
+ * @returns Attachments grouped by message id, oldest first
+ */
+export async function loadMessageAttachments(
+  supabaseClient: SupabaseClient,
+  chatId: string
+): Promise<Map<string, Attachment[]>> {
+  const byMessage = new Map<string, Attachment[]>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from('attachments')
+      .select('*')
+      .eq('chat_id', chatId)
+      .not('message_id', 'is', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    for (const attachment of data as Attachment[]) {
+      const messageId = attachment.message_id!;
+      byMessage.set(messageId, [...(byMessage.get(messageId) || []), attachment]);
+    }
+    if (data.length < PAGE_SIZE) return byMessage;
+  }
+}
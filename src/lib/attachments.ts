@@ -0,0 +1,66 @@
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+// Extracted text beyond this is cut off before it reaches the model
+export const MAX_ATTACHMENT_CHARS = 100_000;
+
+// Row of the attachments table
+export type Attachment = {
+  id: string;
+  chat_id: string;
+  user_id: string;
+  // The user message the file was sent with; null until it is sent
+  message_id: string | null;
+  name: string;
+  content_type: string;
+  size: number;
+  storage_path: string;
+  extracted_text: string;
+  // Set when extracted_text was cut to MAX_ATTACHMENT_CHARS
+  truncated: boolean;
+  created_at: string;
+};
+
+// What the browser gets; the extracted text stays on the server
+export type AttachmentInfo = Pick<
+  Attachment,
+  'id' | 'message_id' | 'name' | 'content_type' | 'size' | 'truncated' | 'created_at'
+>;
+
+export const ATTACHMENT_INFO_COLUMNS = 'id, message_id, name, content_type, size, truncated, created_at';
+
+export const PDF_TYPE = 'application/pdf';
+
+// Accepted files by extension. Browsers report unreliable types for source
+// code, so the extension decides.
+const CONTENT_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+  jsonl: 'application/jsonl',
+  pdf: PDF_TYPE,
+  ...Object.fromEntries(
+    [
+      'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt',
+      'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'swift', 'scala', 'sh', 'sql',
+      'html', 'css', 'scss', 'xml', 'yaml', 'yml', 'toml', 'ini',
+    ].map((extension) => [extension, 'text/plain'])
+  ),
+};
+
+// For the file input's accept attribute
+export const ACCEPTED_EXTENSIONS = Object.keys(CONTENT_TYPES).map((extension) => `.${extension}`);
+
+/**
+ * Works out the stored content type of an upload
+ * @param fileName Name of the uploaded file
+ * @returns Content type, or null when the file type isn't supported
+ */
+export function getAttachmentContentType(fileName: string): string | null {
+  const dot = fileName.lastIndexOf('.');
+  if (dot === -1) return null;
+  return CONTENT_TYPES[fileName.slice(dot + 1).toLowerCase()] || null;
+}
@@ -0,0 +1,105 @@
+import { isAuthError, Provider } from '@supabase/supabase-js';
+
+// Where emailed links and OAuth providers send the browser back to
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+// Labels of the OAuth providers the sign-in form can offer
+const PROVIDER_LABELS: Partial<Record<Provider, string>> = {
+  apple: 'Apple',
+  azure: 'Microsoft',
+  bitbucket: 'Bitbucket',
+  discord: 'Discord',
+  facebook: 'Facebook',
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  google: 'Google',
+  linkedin_oidc: 'LinkedIn',
+  slack_oidc: 'Slack',
+  twitter: 'X',
+};
+
+/**
+ * OAuth providers listed in NEXT_PUBLIC_AUTH_PROVIDERS, e.g. "google,github".
+ * Each one also has to be enabled in the Supabase dashboard.
+ * @returns Providers in the configured order with their button labels
+ */
+export function getOAuthProviders(): { provider: Provider; label: string }[] {
+  return (process.env.NEXT_PUBLIC_AUTH_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name): name is Provider => name in PROVIDER_LABELS)
+    .map((provider) => ({ provider, label: PROVIDER_LABELS[provider]! }));
+}
+
+/**
+ * Keeps a post-sign-in redirect on this site
+ * @param next Path from a query parameter
+ * @param fallback Path to use when `next` is missing or points elsewhere
+ */
+export function safeRedirectPath(next: string | null | undefined, fallback = '/'): string {
+  if (!next || !next.startsWith('/')) return fallback;
+
+  // "//host" and "/\host" are protocol-relative URLs to another site, and
+  // so is "/\t/host" once the URL parser drops the tab. Resolving the path
+  // the way the browser will shows where it really leads.
+  const url = new URL(next, REDIRECT_BASE);
+  return url.origin === REDIRECT_BASE ? url.pathname + url.search + url.hash : fallback;
+}
+
+// Stand-in origin for resolving redirect paths; never requested
+const REDIRECT_BASE = 'https://redirect.invalid';
+
+// Messages for the Supabase Auth error codes users can run into
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  invalid_credentials: 'Incorrect email or password.',
+  email_not_confirmed:
+    'Please confirm your email address first. Check your inbox for the confirmation link.',
+  user_already_exists: 'An account with this email already exists. Sign in instead.',
+  email_exists: 'An account with this email already exists.',
+  email_address_invalid: 'Please enter a valid email address.',
+  weak_password: 'That password is too weak. Use a longer password with a mix of characters.',
+  same_password: 'The new password must be different from your current password.',
+  signup_disabled: 'New sign-ups are currently disabled.',
+  email_provider_disabled: 'Signing in with email is not enabled.',
+  provider_disabled: 'This sign-in provider is not enabled.',
+  oauth_provider_not_supported: 'This sign-in provider is not enabled.',
+  user_banned: 'This account has been suspended.',
+  otp_expired: 'This link has expired or has already been used. Please request a new one.',
+  flow_state_expired: 'This link has expired. Please request a new one.',
+  flow_state_not_found:
+    'This link has to be opened in the browser you requested it from. Please request a new one.',
+  bad_code_verifier:
+    'This link has to be opened in the browser you requested it from. Please request a new one.',
+  session_not_found: 'Your session has expired. Please sign in again.',
+  session_expired: 'Your session has expired. Please sign in again.',
+  reauthentication_needed: 'Please sign in again before changing this.',
+  over_email_send_rate_limit:
+    'Too many emails have been sent to this address. Please wait a few minutes and try again.',
+  over_request_rate_limit: 'Too many attempts. Please wait a few minutes and try again.',
+};
+
+/**
+ * Turns an error from Supabase Auth, or an error code from an auth redirect,
+ * into a message to show the user
+ * @param error Thrown error, or an object carrying a Supabase Auth error code
+ * @param fallback Message for errors without a more specific one
+ */
+export function authErrorMessage(error: unknown, fallback: string): string {
+  if (isAuthError(error)) {
+    // Thrown before a response arrived, e.g. offline
+    if (error.name === 'AuthRetryableFetchError') {
+      return 'Could not reach the authentication server. Check your connection and try again.';
+    }
+    if (error.code && AUTH_ERROR_MESSAGES[error.code]) {
+      return AUTH_ERROR_MESSAGES[error.code];
+    }
+    // Older Auth servers send no code with wrong credentials
+    if (error.message === 'Invalid login credentials') {
+      return AUTH_ERROR_MESSAGES.invalid_credentials;
+    }
+    return fallback;
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  return (typeof code === 'string' && AUTH_ERROR_MESSAGES[code]) || fallback;
+}
@@ -0,0 +1,312 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Chat, Message } from '@/lib/supabaseClient';
+import { ChatProvider, ChatCompletionMessage, CompletionOptions } from '@/lib/ai';
+import { toCompletionOptions } from '@/lib/chatSettings';
+import { countMessageTokens } from '@/lib/tokens';
+import { getLatestPath, getPathTo } from '@/lib/messageTree';
+import { recordUsage } from '@/lib/usage';
+import { resolveSystemPrompt } from '@/lib/prompts';
+import { loadMessageAttachments, withAttachments } from '@/lib/attachmentText';
+import { formatSources, searchKnowledge } from '@/lib/retrieval';
+import type { Citation } from '@/lib/knowledge';
+import { ApiError } from '@/lib/errors';
+
+// How much of the model's context window a chat's next request uses
+export type ContextUsage = {
+  usedTokens: number;
+  contextWindow: number;
+  // Newest message folded into the summary; it and everything before it
+  // reach the model only through the summary
+  summarizedThroughId: string | null;
+};
+
+type StoredTurn = Pick<Message, 'id' | 'role' | 'content' | 'parent_id' | 'created_at' | 'tool_call'>;
+
+const SUMMARY_INSTRUCTIONS =
+  'Summarize the conversation below so it can be continued without the original messages. ' +
+  'Keep names, decisions, code identifiers, open questions and anything the user may refer back to. ' +
+  'Reply with the summary only.';
+const SUMMARY_MAX_TOKENS = 500;
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// A stored tool step is replayed as the assistant's call followed by its result
+function toCompletionMessages(turn: StoredTurn): ChatCompletionMessage[] {
+  if (turn.role === 'tool' && turn.tool_call) {
+    return [
+      { role: 'assistant', content: '', toolCalls: [turn.tool_call] },
+      { role: 'tool', content: turn.content, toolCallId: turn.tool_call.id },
+    ];
+  }
+  return [{ role: turn.role, content: turn.content }];
+}
+
+// Knowledge base sources go right before the newest turn, which they answer
+function assembleMessages(
+  systemPrompt: string | null,
+  summary: string | null,
+  turns: StoredTurn[],
+  sources: string | null
+): ChatCompletionMessage[] {
+  const history = turns.flatMap(toCompletionMessages);
+  if (sources) {
+    history.splice(Math.max(history.length - 1, 0), 0, { role: 'system', content: sources });
+  }
+
+  return [
+    ...(systemPrompt
+      ? [{ role: 'system' as const, content: systemPrompt }]
+      : []),
+    ...(summary
+      ? [{ role: 'system' as const, content: `Summary of the earlier conversation:\n${summary}` }]
+      : []),
+    ...history,
+  ];
+}
+
+// Index of the oldest turn to keep so the kept turns fit in availableTokens.
+// The newest turn is always kept.
+function findKeepIndex(turns: StoredTurn[], availableTokens: number): number {
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    used += countMessageTokens(toCompletionMessages(turns[i]));
+    if (used > availableTokens && i < turns.length - 1) {
+      return i + 1;
+    }
+  }
+  return 0;
+}
+
+// The newest turns that fit in availableTokens; unlike findKeepIndex, none
+// when even the newest does not
+function keepFitting(turns: StoredTurn[], availableTokens: number): StoredTurn[] {
+  let used = 0;
+  let start = turns.length;
+  while (start > 0) {
+    used += countMessageTokens(toCompletionMessages(turns[start - 1]));
+    if (used > availableTokens) break;
+    start--;
+  }
+  return turns.slice(start);
+}
+
+async function summarizeTurns(
+  supabaseClient: SupabaseClient,
+  chat: Chat,
+  provider: ChatProvider,
+  options: CompletionOptions,
+  previousSummary: string | null,
+  turns: StoredTurn[]
+): Promise<string> {
+  const transcript = turns
+    .map((turn) =>
+      turn.role === 'tool'
+        ? `Tool ${turn.tool_call?.name}(${turn.tool_call?.arguments}): ${turn.content}`
+        : `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`
+    )
+    .join('\n\n');
+
+  const prompt: ChatCompletionMessage[] = [
+    { role: 'system', content: SUMMARY_INSTRUCTIONS },
+    {
+      role: 'user',
+      content: previousSummary
+        ? `Earlier summary:\n${previousSummary}\n\nConversation since then:\n${transcript}`
+        : transcript,
+    },
+  ];
+
+  const startedAt = Date.now();
+  const { content, model, usage } = await provider.complete(prompt, {
+    model: options.model,
+    temperature: 0.2,
+    maxTokens: SUMMARY_MAX_TOKENS,
+  });
+
+  await recordUsage(supabaseClient, chat, {
+    purpose: 'summary',
+    model,
+    prompt,
+    reply: content,
+    usage,
+    latencyMs: Date.now() - startedAt,
+  });
+
+  return content.trim();
+}
+
+/**
+ * Checks that a new message fits the model's context window next to the
+ * system prompt and a summary, before it is saved. A saved message that can
+ * never fit would fail every retry of the request that sent it.
+ * @param chat Chat the message is sent in
+ * @param provider Provider the context is built for
+ * @param user Fills in the system prompt's {{user.*}} variables
+ * @param content The message as the model sees it, attached files included
+ * @throws ApiError 400 when it does not fit
+ */
+export function requireTurnFits(
+  chat: Chat,
+  provider: ChatProvider,
+  user: { email?: string },
+  content: string
+): void {
+  const systemPrompt = resolveSystemPrompt(chat, user);
+  const options = toCompletionOptions(chat, provider.capabilities);
+  const contextWindow = provider.getContextWindow(options.model || provider.defaultModel);
+  const budget = contextWindow - (options.maxTokens ?? 0) - SUMMARY_MAX_TOKENS;
+
+  const messages = assembleMessages(systemPrompt, null, [], null);
+  if (countMessageTokens([...messages, { role: 'user', content }]) > budget) {
+    throw new ApiError(
+      400,
+      'context_too_long',
+      'This message is too long for the model context window'
+    );
+  }
+}
+
+/**
+ * Builds the model context for a chat from what is stored in the database.
+ * When the history no longer fits the model's context window, the oldest
+ * turns are folded into the chat's rolling summary.
+ * @param supabaseClient Client for the current request
+ * @param chat Chat whose system prompt, summary and messages are used
+ * @param provider Provider the context is built for
+ * @param options user fills in the system prompt's {{user.*}} variables;
+ * leafId selects the branch (defaults to the newest message);
+ * refreshSummary: false measures without summarizing;
+ * retrieve searches the chat's knowledge bases for the newest user message
+ * @returns Messages to send, how much of the context window they use and the
+ * knowledge base sources they include
+ * @throws ApiError 400 when the newest message alone does not fit
+ */
+export async function buildChatContext(
+  supabaseClient: SupabaseClient,
+  chat: Chat,
+  provider: ChatProvider,
+  {
+    user,
+    leafId,
+    refreshSummary = true,
+    retrieve = false,
+  }: {
+    user: { email?: string };
+    leafId?: string | null;
+    refreshSummary?: boolean;
+    retrieve?: boolean;
+  }
+): Promise<{ messages: ChatCompletionMessage[]; usage: ContextUsage; citations: Citation[] }> {
+  // Every page is needed, since the branch can start in any of them
+  const stored: StoredTurn[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from('messages')
+      .select('id, role, content, parent_id, created_at, tool_call')
+      .eq('chat_id', chat.id)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    stored.push(...(data as StoredTurn[]));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  // Only the selected branch is sent to the model
+  const path = leafId ? getPathTo(stored, leafId) : getLatestPath(stored);
+
+  // Only the chat's own system prompt may instruct the model; any stored rows
+  // with other roles are ignored. Tool steps are left out for providers that
+  // can't read them. Files go in with the message they were sent with, so
+  // they count toward the context window and can be summarized away.
+  const attachments = await loadMessageAttachments(supabaseClient, chat.id);
+  const turns = path
+    .filter(
+      (message) =>
+        message.role === 'user' ||
+        message.role === 'assistant' ||
+        (message.role === 'tool' && provider.capabilities.tools)
+    )
+    .map((message) =>
+      message.role === 'user' && attachments.has(message.id)
+        ? { ...message, content: withAttachments(message.content, attachments.get(message.id)!) }
+        : message
+    );
+
+  // Searched with the typed text only, not the attached files
+  const newest = path[path.length - 1];
+  const { content: sources, citations } =
+    retrieve && newest?.role === 'user'
+      ? formatSources(await searchKnowledge(supabaseClient, chat, provider, newest.content))
+      : { content: null, citations: [] };
+
+  const systemPrompt = resolveSystemPrompt(chat, user);
+  const options = toCompletionOptions(chat, provider.capabilities);
+  const contextWindow = provider.getContextWindow(options.model || provider.defaultModel);
+  // Leave room for the reply
+  const budget = contextWindow - (options.maxTokens ?? 0);
+
+  // A summary only applies while the message it ends at is on this branch
+  const throughIndex = chat.summary_through_id
+    ? turns.findIndex((turn) => turn.id === chat.summary_through_id)
+    : -1;
+  let summary = throughIndex === -1 ? null : chat.context_summary;
+  let summarizedThroughId = throughIndex === -1 ? null : chat.summary_through_id;
+  let recent = turns.slice(throughIndex + 1);
+
+  let messages = assembleMessages(systemPrompt, summary, recent, sources);
+
+  if (refreshSummary && countMessageTokens(messages) > budget) {
+    // Fold until the remaining turns use half the budget, so the summary is
+    // refreshed every so often rather than on every new message
+    const fixedTokens = countMessageTokens(assembleMessages(systemPrompt, null, [], sources)) + SUMMARY_MAX_TOKENS;
+    const keepIndex = findKeepIndex(recent, budget / 2 - fixedTokens);
+    const folded = recent.slice(0, keepIndex);
+    recent = recent.slice(keepIndex);
+
+    if (folded.length > 0) {
+      let summarized = false;
+      try {
+        summary = await summarizeTurns(supabaseClient, chat, provider, options, summary, folded);
+        summarizedThroughId = folded[folded.length - 1].id;
+        summarized = true;
+      } catch (error) {
+        // The folded turns are sent as they are instead, the newest of them
+        // first, as far as they fit
+        console.error('Error summarizing chat:', error);
+        const available =
+          budget - countMessageTokens(assembleMessages(systemPrompt, summary, recent, sources));
+        recent = [...keepFitting(folded, available), ...recent];
+      }
+
+      if (summarized) {
+        // This request uses the new summary even if saving it fails
+        const { error: updateError } = await supabaseClient
+          .from('chats')
+          .update({ context_summary: summary, summary_through_id: summarizedThroughId })
+          .eq('id', chat.id);
+
+        if (updateError) console.error('Error updating chat summary:', updateError);
+      }
+    }
+
+    messages = assembleMessages(systemPrompt, summary, recent, sources);
+  }
+
+  const usedTokens = countMessageTokens(messages);
+
+  if (refreshSummary && usedTokens > budget) {
+    throw new ApiError(
+      400,
+      'context_too_long',
+      'This message is too long for the model context window'
+    );
+  }
+
+  return {
+    messages,
+    usage: { usedTokens, contextWindow, summarizedThroughId },
+    citations,
+  };
+}
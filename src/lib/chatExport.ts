@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Chat, Message } from '@/lib/supabaseClient';
+import { ChatCompletionMessage } from '@/lib/ai';
+import { getLatestPath, getPathTo, groupChildren } from '@/lib/messageTree';
+
+export const EXPORT_FORMAT = 'ghostchat';
+export const EXPORT_VERSION = 1;
+
+// Query string accepted by GET /api/export; without chatId every chat is exported
+export const exportQuerySchema = z
+  .object({
+    format: z.enum(['json', 'markdown', 'jsonl']).default('json'),
+    chatId: z.string().uuid().optional(),
+  })
+  .strict();
+
+export type ExportFormat = z.infer<typeof exportQuerySchema>['format'];
+
+// Chat fields written to an export; ownership and the rolling summary are
+// tied to this database and left out
+export type ExportedChat = Pick<
+  Chat,
+  | 'id'
+  | 'title'
+  | 'title_locked'
+  | 'system_prompt'
+  | 'prompt_variables'
+  | 'created_at'
+  | 'model'
+  | 'temperature'
+  | 'top_p'
+  | 'max_tokens'
+  | 'stop'
+  | 'tools_enabled'
+  | 'pinned_at'
+  | 'archived_at'
+> & {
+  // Every message of the chat, including other branches, oldest first
+  messages: Message[];
+};
+
+// Versioned GhostChat JSON format, read back by the importer
+export type ChatExport = {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exported_at: string;
+  chats: ExportedChat[];
+};
+
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// Chat ids go into the request URL, so they are sent a batch at a time to
+// keep it short however many chats the user has
+const CHAT_BATCH_SIZE = 100;
+
+async function loadMessages(supabaseClient: SupabaseClient, chatIds: string[]): Promise<Message[]> {
+  const messages: Message[] = [];
+  for (let start = 0; start < chatIds.length; start += CHAT_BATCH_SIZE) {
+    const batch = chatIds.slice(start, start + CHAT_BATCH_SIZE);
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabaseClient
+        .from('messages')
+        .select('*')
+        .in('chat_id', batch)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      messages.push(...(data as Message[]));
+      if (data.length < PAGE_SIZE) break;
+    }
+  }
+  return messages;
+}
+
+/**
+ * Loads chats with all of their messages for export
+ * @param supabaseClient Client for the current request
+ * @param chats Chats to export, already checked to belong to the user
+ * @returns The chats in the GhostChat export format
+ */
+export async function buildChatExport(
+  supabaseClient: SupabaseClient,
+  chats: Chat[]
+): Promise<ChatExport> {
+  const messages = chats.length > 0
+    ? await loadMessages(supabaseClient, chats.map((chat) => chat.id))
+    : [];
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    chats: chats.map((chat) => ({
+      id: chat.id,
+      title: chat.title,
+      title_locked: chat.title_locked,
+      system_prompt: chat.system_prompt,
+      prompt_variables: chat.prompt_variables,
+      created_at: chat.created_at,
+      model: chat.model,
+      temperature: chat.temperature,
+      top_p: chat.top_p,
+      max_tokens: chat.max_tokens,
+      stop: chat.stop,
+      tools_enabled: chat.tools_enabled,
+      pinned_at: chat.pinned_at,
+      archived_at: chat.archived_at,
+      messages: messages.filter((message) => message.chat_id === chat.id),
+    })),
+  };
+}
+
+/**
+ * Renders an export as readable Markdown. Only the newest branch of each
+ * chat is included.
+ * @param chatExport Export built by buildChatExport
+ * @returns One Markdown document with a section per chat
+ */
+export function toMarkdown(chatExport: ChatExport): string {
+  const sections = chatExport.chats.map((chat) => {
+    const path = getLatestPath(chat.messages);
+    const lines = [`# ${chat.title}`, '', `_Created ${chat.created_at}_`];
+
+    if (chat.model) lines.push('', `Model: \`${chat.model}\``);
+    if (chat.system_prompt) {
+      lines.push('', ...chat.system_prompt.split('\n').map((line) => `> ${line}`));
+    }
+    if (path.length < chat.messages.length) {
+      lines.push('', `_Showing the latest branch; ${chat.messages.length - path.length} message(s) on other branches are omitted._`);
+    }
+
+    for (const message of path) {
+      if (message.role === 'tool') {
+        // Tool steps are shown as the call and its result
+        const call = message.tool_call;
+        lines.push(
+          '',
+          `## Tool (${call?.name ?? 'unknown'})`,
+          '',
+          '```json',
+          call?.arguments || '{}',
+          '```',
+          '',
+          '```',
+          message.content,
+          '```'
+        );
+        continue;
+      }
+      const speaker = message.role === 'user' ? 'You' : message.role === 'assistant' ? 'Assistant' : 'System';
+      lines.push('', `## ${speaker}`, '', message.content);
+      if (message.stopped) lines.push('', '_(stopped)_');
+    }
+
+    return lines.join('\n');
+  });
+
+  return `${sections.join('\n\n---\n\n')}\n`;
+}
+
+/**
+ * Renders an export as OpenAI chat fine-tuning JSONL. Every branch that
+ * ends in a finished assistant reply becomes one training example; tool
+ * steps are left out.
+ * @param chatExport Export built by buildChatExport
+ * @returns One `{"messages": [...]}` object per line
+ */
+export function toFineTuningJsonl(chatExport: ChatExport): string {
+  const lines: string[] = [];
+
+  for (const chat of chatExport.chats) {
+    const children = groupChildren(chat.messages);
+    const leaves = chat.messages.filter(
+      (message) => message.role === 'assistant' && !message.stopped && !children.has(message.id)
+    );
+
+    for (const leaf of leaves) {
+      const messages: ChatCompletionMessage[] = [
+        ...(chat.system_prompt ? [{ role: 'system' as const, content: chat.system_prompt }] : []),
+        ...getPathTo(chat.messages, leaf.id)
+          .filter((message) => message.role === 'user' || message.role === 'assistant')
+          .map((message) => ({ role: message.role, content: message.content })),
+      ];
+      lines.push(JSON.stringify({ messages }));
+    }
+  }
+
+  return lines.map((line) => `${line}\n`).join('');
+}
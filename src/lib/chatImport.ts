@@ -0,0 +1,369 @@
+import { z } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Message } from '@/lib/supabaseClient';
+import type { ProviderInfo, ToolCall } from '@/lib/ai';
+import { ChatSettings, createChatSettingsSchema } from '@/lib/chatSettings';
+import { EXPORT_FORMAT, EXPORT_VERSION } from '@/lib/chatExport';
+import { ApiError } from '@/lib/errors';
+
+export const MAX_IMPORT_CHATS = 500;
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+// A chat read from an import file, ready to be inserted for the user
+export type ImportedChat = {
+  title: string;
+  title_locked: boolean;
+  system_prompt: string | null;
+  prompt_variables: Record<string, string>;
+  settings: ChatSettings;
+  created_at: string;
+  pinned_at: string | null;
+  archived_at: string | null;
+  // Parents always come before their children
+  messages: ImportedMessage[];
+  // Things the importer changed or left out, shown in the preview
+  warnings: string[];
+};
+
+// Messages are linked by keys from the file; new ids are assigned on insert
+type ImportedMessage = Pick<
+  Message,
+  'role' | 'content' | 'created_at' | 'tool_call' | 'stopped'
+> & {
+  key: string;
+  parentKey: string | null;
+};
+
+const timestampSchema = z.string().datetime({ offset: true });
+
+const DEFAULT_SETTINGS: ChatSettings = {
+  model: null,
+  temperature: null,
+  top_p: null,
+  max_tokens: null,
+  stop: null,
+  tools_enabled: false,
+};
+
+// GhostChat export, see src/lib/chatExport.ts
+const ghostChatImportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  chats: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1),
+        title_locked: z.boolean().optional(),
+        system_prompt: z.string().nullish(),
+        prompt_variables: z.record(z.string()).nullish(),
+        created_at: timestampSchema,
+        model: z.string().nullish(),
+        temperature: z.number().nullish(),
+        top_p: z.number().nullish(),
+        max_tokens: z.number().nullish(),
+        stop: z.array(z.string()).nullish(),
+        tools_enabled: z.boolean().optional(),
+        pinned_at: timestampSchema.nullish(),
+        archived_at: timestampSchema.nullish(),
+        messages: z.array(
+          z.object({
+            id: z.string().min(1),
+            parent_id: z.string().nullable(),
+            role: z.enum(['user', 'assistant', 'system', 'tool']),
+            content: z.string(),
+            created_at: timestampSchema,
+            tool_call: z
+              .object({ id: z.string(), name: z.string(), arguments: z.string() })
+              .nullish(),
+            stopped: z.boolean().optional(),
+          })
+        ),
+      })
+    )
+    .min(1)
+    .max(MAX_IMPORT_CHATS),
+});
+
+// The parts of ChatGPT's conversations.json the importer reads
+const chatGptImportSchema = z
+  .array(
+    z.object({
+      title: z.string().nullish(),
+      create_time: z.number(),
+      mapping: z.record(
+        z.object({
+          parent: z.string().nullish(),
+          message: z
+            .object({
+              author: z.object({ role: z.string() }),
+              create_time: z.number().nullish(),
+              content: z.object({
+                content_type: z.string(),
+                parts: z.array(z.unknown()).optional(),
+              }),
+            })
+            .nullish(),
+        })
+      ),
+    })
+  )
+  .min(1)
+  .max(MAX_IMPORT_CHATS);
+
+type ChatGptConversation = z.infer<typeof chatGptImportSchema>[number];
+
+// Orders messages so every parent comes before its children and drops
+// messages whose parent is missing from the file. Walks the tree breadth
+// first from its roots, so large files take linear time.
+function orderByParent(messages: ImportedMessage[]): ImportedMessage[] {
+  const children = new Map<string | null, ImportedMessage[]>();
+  const keys = new Set<string>();
+  for (const message of messages) {
+    if (keys.has(message.key)) {
+      throw new ApiError(400, 'invalid_import', `Message id ${message.key} appears more than once`);
+    }
+    keys.add(message.key);
+    const siblings = children.get(message.parentKey);
+    if (siblings) {
+      siblings.push(message);
+    } else {
+      children.set(message.parentKey, [message]);
+    }
+  }
+
+  const ordered = [...(children.get(null) || [])];
+  for (let i = 0; i < ordered.length; i++) {
+    for (const child of children.get(ordered[i].key) || []) ordered.push(child);
+  }
+
+  return ordered;
+}
+
+function fromGhostChat(data: z.infer<typeof ghostChatImportSchema>): ImportedChat[] {
+  return data.chats.map((chat) => {
+    const messages = orderByParent(
+      chat.messages.map((message) => ({
+        key: message.id,
+        parentKey: message.parent_id,
+        role: message.role,
+        content: message.content,
+        created_at: message.created_at,
+        // Checked by the schema; without strictNullChecks zod types its keys as optional
+        tool_call: (message.tool_call as ToolCall | null | undefined) ?? null,
+        stopped: message.stopped ?? false,
+      }))
+    );
+    const warnings =
+      messages.length < chat.messages.length
+        ? [`${chat.messages.length - messages.length} message(s) with a missing parent were skipped`]
+        : [];
+
+    return {
+      title: chat.title,
+      title_locked: chat.title_locked ?? false,
+      system_prompt: chat.system_prompt ?? null,
+      prompt_variables: chat.prompt_variables ?? {},
+      settings: {
+        model: chat.model ?? null,
+        temperature: chat.temperature ?? null,
+        top_p: chat.top_p ?? null,
+        max_tokens: chat.max_tokens ?? null,
+        stop: chat.stop ?? null,
+        tools_enabled: chat.tools_enabled ?? false,
+      },
+      created_at: chat.created_at,
+      pinned_at: chat.pinned_at ?? null,
+      archived_at: chat.archived_at ?? null,
+      messages,
+      warnings,
+    };
+  });
+}
+
+function textOf(parts: unknown[] | undefined): string {
+  return (parts || []).filter((part): part is string => typeof part === 'string').join('\n').trim();
+}
+
+function fromChatGpt(conversation: ChatGptConversation): ImportedChat {
+  const createdAt = (seconds: number) => new Date(seconds * 1000).toISOString();
+  const nodes = conversation.mapping;
+  let systemPrompt: string | null = null;
+  let skipped = 0;
+
+  // Only text turns from the user and the assistant are kept. Other nodes
+  // (tool calls, images, hidden context) are skipped and their children
+  // attached to the nearest kept ancestor.
+  const isKept = (key: string) => {
+    const message = nodes[key]?.message;
+    return (
+      !!message &&
+      (message.author.role === 'user' || message.author.role === 'assistant') &&
+      message.content.content_type === 'text' &&
+      textOf(message.content.parts) !== ''
+    );
+  };
+  const keptParent = (key: string): string | null => {
+    let parent = nodes[key]?.parent ?? null;
+    const seen = new Set<string>();
+    while (parent && !isKept(parent) && !seen.has(parent)) {
+      seen.add(parent);
+      parent = nodes[parent]?.parent ?? null;
+    }
+    return parent && isKept(parent) ? parent : null;
+  };
+
+  const messages: ImportedMessage[] = [];
+  for (const [key, node] of Object.entries(nodes)) {
+    const message = node.message;
+    if (!message) continue;
+
+    if (!isKept(key)) {
+      const text = textOf(message.content.parts);
+      if (message.author.role === 'system' && text && !systemPrompt) {
+        systemPrompt = text;
+      } else if (text || message.content.content_type !== 'text') {
+        skipped++;
+      }
+      continue;
+    }
+
+    messages.push({
+      key,
+      parentKey: keptParent(key),
+      role: message.author.role as 'user' | 'assistant',
+      content: textOf(message.content.parts),
+      created_at: createdAt(message.create_time ?? conversation.create_time),
+      tool_call: null,
+      stopped: false,
+    });
+  }
+
+  return {
+    title: conversation.title?.trim() || 'Imported chat',
+    title_locked: false,
+    system_prompt: systemPrompt,
+    prompt_variables: {},
+    settings: DEFAULT_SETTINGS,
+    created_at: createdAt(conversation.create_time),
+    pinned_at: null,
+    archived_at: null,
+    messages: orderByParent(messages),
+    warnings: skipped > 0 ? [`${skipped} non-text or tool message(s) were skipped`] : [],
+  };
+}
+
+/**
+ * Reads an import file in the GhostChat export format or ChatGPT's
+ * conversations.json format
+ * @param body Parsed JSON of the file
+ * @param providerInfo Current provider; settings it does not support are reset
+ * @returns Chats to import, with warnings for anything changed or skipped
+ * @throws ApiError 400 when the file matches neither format or repeats a
+ * message id within a chat
+ */
+export function parseImport(body: unknown, providerInfo: ProviderInfo): ImportedChat[] {
+  let chats: ImportedChat[];
+
+  if (Array.isArray(body)) {
+    const result = chatGptImportSchema.safeParse(body);
+    if (!result.success) {
+      throw new ApiError(400, 'invalid_import', 'Invalid ChatGPT export', result.error.flatten());
+    }
+    chats = result.data.map(fromChatGpt);
+  } else if (body && typeof body === 'object' && 'format' in body) {
+    const result = ghostChatImportSchema.safeParse(body);
+    if (!result.success) {
+      throw new ApiError(400, 'invalid_import', 'Invalid GhostChat export', result.error.flatten());
+    }
+    chats = fromGhostChat(result.data);
+  } else {
+    throw new ApiError(
+      400,
+      'invalid_import',
+      'Expected a GhostChat export or a ChatGPT conversations.json file'
+    );
+  }
+
+  // Settings from another provider or model fall back to the defaults
+  const settingsSchema = createChatSettingsSchema(providerInfo);
+  return chats.map((chat) =>
+    settingsSchema.safeParse(chat.settings).success
+      ? chat
+      : {
+          ...chat,
+          settings: DEFAULT_SETTINGS,
+          warnings: [...chat.warnings, 'Model settings are not supported by the current provider and were reset'],
+        }
+  );
+}
+
+// Inserts are split so a large chat stays under request size limits
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Creates chats and messages for the user from parsed import data
+ * @param supabaseClient Client for the current request
+ * @param userId Owner of the new chats
+ * @param chats Chats returned by parseImport
+ * @returns Ids of the created chats, in order
+ */
+export async function importChats(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  chats: ImportedChat[]
+): Promise<string[]> {
+  const chatIds: string[] = [];
+
+  for (const chat of chats) {
+    const { data: chatData, error: chatError } = await supabaseClient
+      .from('chats')
+      .insert({
+        user_id: userId,
+        title: chat.title,
+        title_locked: chat.title_locked,
+        system_prompt: chat.system_prompt,
+        prompt_variables: chat.prompt_variables,
+        ...chat.settings,
+        created_at: chat.created_at,
+        pinned_at: chat.pinned_at,
+        archived_at: chat.archived_at,
+      })
+      .select('id')
+      .single();
+
+    if (chatError) throw chatError;
+    const chatId = chatData.id as string;
+
+    const ids = new Map(chat.messages.map((message) => [message.key, crypto.randomUUID()]));
+    const rows = chat.messages.map((message) => ({
+      id: ids.get(message.key),
+      chat_id: chatId,
+      parent_id: message.parentKey ? ids.get(message.parentKey) : null,
+      role: message.role,
+      content: message.content,
+      // The importer is the only member of the new chat
+      user_id: message.role === 'user' ? userId : null,
+      created_at: message.created_at,
+      tool_call: message.tool_call,
+      stopped: message.stopped,
+    }));
+
+    try {
+      // Parents come first, so every batch only refers to rows already saved
+      for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+        const { error } = await supabaseClient
+          .from('messages')
+          .insert(rows.slice(start, start + INSERT_BATCH_SIZE));
+        if (error) throw error;
+      }
+    } catch (error) {
+      // Don't leave a half-imported chat behind
+      await supabaseClient.from('chats').delete().eq('id', chatId);
+      throw error;
+    }
+
+    chatIds.push(chatId);
+  }
+
+  return chatIds;
+}
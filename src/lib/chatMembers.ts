@@ -0,0 +1,55 @@
+// What a member can do in a chat: owners manage it and its members, editors
+// send messages and change its prompt and settings, viewers only read it
+export type ChatRole = 'owner' | 'editor' | 'viewer';
+
+// Roles an invitation can grant; a chat has exactly one owner
+export const INVITABLE_ROLES = ['editor', 'viewer'] as const;
+export type InvitableRole = (typeof INVITABLE_ROLES)[number];
+
+export const ROLE_LABELS: Record<ChatRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+// A row of the chat_members table
+export type ChatMember = {
+  chat_id: string;
+  user_id: string;
+  role: ChatRole;
+  // Copied from the account when they joined
+  email: string;
+  created_at: string;
+};
+
+// A row of the chat_invitations table, as the chat's owner sees it
+export type ChatInvitation = {
+  id: string;
+  chat_id: string;
+  email: string;
+  role: InvitableRole;
+  invited_by: string;
+  created_at: string;
+};
+
+// An invitation addressed to the signed-in user, as returned by
+// list_chat_invitations
+export type ReceivedInvitation = {
+  id: string;
+  chat_id: string;
+  chat_title: string;
+  role: InvitableRole;
+  invited_by_email: string | null;
+  created_at: string;
+};
+
+const ROLE_RANK: Record<ChatRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+/**
+ * Whether a role allows what the minimum role allows
+ * @param role The member's role; null or undefined for non-members
+ * @param minimum Least role needed
+ */
+export function hasChatRole(role: ChatRole | null | undefined, minimum: ChatRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { ApiError } from '@/lib/errors';
+import { MAX_ATTACHMENTS_PER_MESSAGE } from '@/lib/attachments';
+
+export const MAX_MESSAGE_LENGTH = 32000;
+
+// Chosen by the client once per message and sent again on retries, so a
+// retry can't save the user message or the reply twice
+const clientKeySchema = z.string().uuid().optional();
+
+// Body accepted by POST /api/chat. The history is loaded from the database,
+// so the client only says where in the message tree the new turn goes.
+export const chatRequestSchema = z.discriminatedUnion('action', [
+  // Add a user message under parentId and reply to it. Editing a message is
+  // a send with the edited message's parent, which creates a sibling branch.
+  z
+    .object({
+      action: z.literal('send'),
+      chatId: z.string().uuid(),
+      clientKey: clientKeySchema,
+      parentId: z.string().uuid().nullable(),
+      content: z
+        .string()
+        .trim()
+        .min(1, 'Message cannot be empty')
+        .max(MAX_MESSAGE_LENGTH, `Message cannot exceed ${MAX_MESSAGE_LENGTH} characters`),
+      // Uploaded files that haven't been sent yet, from POST /api/attachments
+      attachmentIds: z
+        .array(z.string().uuid())
+        .max(
+          MAX_ATTACHMENTS_PER_MESSAGE,
+          `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`
+        )
+        .optional(),
+    })
+    .strict(),
+  // Generate another reply next to an existing assistant message
+  z
+    .object({
+      action: z.literal('regenerate'),
+      chatId: z.string().uuid(),
+      clientKey: clientKeySchema,
+      messageId: z.string().uuid(),
+    })
+    .strict(),
+  // Finish a stopped reply. The result is a new sibling that starts with the
+  // stopped reply's text.
+  z
+    .object({
+      action: z.literal('continue'),
+      chatId: z.string().uuid(),
+      clientKey: clientKeySchema,
+      messageId: z.string().uuid(),
+    })
+    .strict(),
+]);
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+
+/**
+ * Parses and validates the JSON body of a /api/chat request
+ * @param request Incoming request
+ * @returns Validated request body
+ * @throws ApiError 400 when the body is not JSON or does not match the schema
+ */
+export async function parseChatRequest(request: Request): Promise<ChatRequest> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+
+  const result = chatRequestSchema.safeParse(body);
+  if (!result.success) {
+    throw new ApiError(400, 'invalid_request', 'Invalid request body', result.error.flatten());
+  }
+
+  return result.data;
+}
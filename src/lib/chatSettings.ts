@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import type { Chat } from '@/lib/supabaseClient';
+import type { CompletionOptions, ProviderCapabilities, ProviderInfo } from '@/lib/ai/types';
+
+// Used when a chat leaves the setting empty
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 1000;
+
+export type ChatSettings = Pick<
+  Chat,
+  'model' | 'temperature' | 'top_p' | 'max_tokens' | 'stop' | 'tools_enabled'
+>;
+
+/**
+ * Builds the schema for a chat's generation settings
+ * @param info Provider models and capabilities to validate against
+ * @returns Zod schema accepting null for "use the provider default"
+ */
+export function createChatSettingsSchema({ models, capabilities }: ProviderInfo) {
+  const { temperature } = capabilities;
+
+  return z
+    .object({
+      model: z
+        .string()
+        .trim()
+        .min(1)
+        // Some local servers do not list their models, so accept any name then
+        .refine((model) => models.length === 0 || models.includes(model), {
+          message: 'Model is not available from the configured provider',
+        })
+        .nullable(),
+      temperature: z
+        .number()
+        .min(temperature.min, `Temperature must be at least ${temperature.min}`)
+        .max(temperature.max, `Temperature must be at most ${temperature.max}`)
+        .nullable(),
+      top_p: capabilities.topP
+        ? z
+            .number()
+            .gt(0, 'Top P must be greater than 0')
+            .max(1, 'Top P must be at most 1')
+            .nullable()
+        : z.null({ invalid_type_error: 'Top P is not supported by this provider' }),
+      max_tokens: z
+        .number()
+        .int('Max tokens must be a whole number')
+        .min(1, 'Max tokens must be at least 1')
+        .max(
+          capabilities.maxOutputTokens,
+          `Max tokens must be at most ${capabilities.maxOutputTokens}`
+        )
+        .nullable(),
+      stop: z
+        .array(z.string().min(1, 'Stop sequences cannot be empty'))
+        .max(
+          capabilities.maxStopSequences,
+          `At most ${capabilities.maxStopSequences} stop sequences are supported`
+        )
+        .nullable(),
+      tools_enabled: capabilities.tools
+        ? z.boolean()
+        : z.literal(false, {
+            errorMap: () => ({ message: 'Tools are not supported by this provider' }),
+          }),
+    })
+    .strict();
+}
+
+/**
+ * Converts a chat's stored settings into provider options
+ * @param settings Settings from the chat row
+ * @param capabilities Capabilities of the active provider
+ * @returns Completion options with defaults filled in and unsupported values dropped.
+ * Tools are added by the caller, which also runs them.
+ */
+export function toCompletionOptions(
+  settings: ChatSettings,
+  capabilities: ProviderCapabilities
+): CompletionOptions {
+  // Settings were validated when saved, but the provider may have changed since
+  return {
+    model: settings.model || undefined,
+    temperature: Math.min(
+      Math.max(settings.temperature ?? DEFAULT_TEMPERATURE, capabilities.temperature.min),
+      capabilities.temperature.max
+    ),
+    topP: capabilities.topP ? settings.top_p ?? undefined : undefined,
+    maxTokens: Math.min(settings.max_tokens ?? DEFAULT_MAX_TOKENS, capabilities.maxOutputTokens),
+    stop: settings.stop?.length
+      ? settings.stop.slice(0, capabilities.maxStopSequences)
+      : undefined,
+  };
+}
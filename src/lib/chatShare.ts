@@ -0,0 +1,125 @@
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Chat, Message } from '@/lib/supabaseClient';
+
+// Row of the chat_shares table
+export type ChatShare = {
+  id: string;
+  chat_id: string;
+  user_id: string;
+  token: string;
+  include_system_prompt: boolean;
+  created_at: string;
+};
+
+// Body accepted by PUT /api/chats/[id]/share
+export const shareSettingsSchema = z
+  .object({
+    includeSystemPrompt: z.boolean().default(false),
+  })
+  .strict();
+
+// Message fields a shared view shows
+export type SharedMessage = Pick<
+  Message,
+  'id' | 'role' | 'content' | 'created_at' | 'parent_id' | 'tool_call' | 'stopped'
+>;
+
+// What GET /api/share/[token] returns. Nothing that identifies the owner is
+// included.
+export type SharedChat = {
+  title: string;
+  created_at: string;
+  // null unless the owner chose to include it
+  system_prompt: string | null;
+  messages: SharedMessage[];
+};
+
+// 32 random bytes; base64url keeps the token safe to put in a path
+export function createShareToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function isShareToken(token: string): boolean {
+  return /^[A-Za-z0-9_-]{43}$/.test(token);
+}
+
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Loads a shared chat by its token
+ * @param adminClient Service role client; the token is the only authorization
+ * @param token Token from the share link
+ * @returns The chat as shown to viewers, or null when the link doesn't exist
+ * or was revoked
+ */
+export async function loadSharedChat(
+  adminClient: SupabaseClient,
+  token: string
+): Promise<SharedChat | null> {
+  const { data: share, error: shareError } = await adminClient
+    .from('chat_shares')
+    .select('chat_id, include_system_prompt')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (shareError) throw shareError;
+  if (!share) return null;
+
+  // Explicit columns so owner fields never leave the server
+  const { data: chat, error: chatError } = await adminClient
+    .from('chats')
+    .select('title, created_at, system_prompt')
+    .eq('id', share.chat_id)
+    .single();
+
+  if (chatError) throw chatError;
+  const { title, created_at, system_prompt } = chat as Pick<
+    Chat,
+    'title' | 'created_at' | 'system_prompt'
+  >;
+
+  const messages: SharedMessage[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await adminClient
+      .from('messages')
+      .select('id, role, content, created_at, parent_id, tool_call, stopped')
+      .eq('chat_id', share.chat_id)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    messages.push(...(data as SharedMessage[]));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return {
+    title,
+    created_at,
+    system_prompt: share.include_system_prompt ? system_prompt : null,
+    messages: withoutToolSteps(messages),
+  };
+}
+
+/**
+ * Leaves out tool steps, whose results can hold the owner's other chats,
+ * and attaches the replies below them to the message they answered
+ * @param messages Every message of the chat
+ * @returns The user messages and replies, still forming a tree
+ */
+function withoutToolSteps(messages: SharedMessage[]): SharedMessage[] {
+  const toolParents = new Map(
+    messages.filter((message) => message.role === 'tool').map((message) => [message.id, message.parent_id])
+  );
+  const resolve = (parentId: string | null): string | null => {
+    while (parentId && toolParents.has(parentId)) parentId = toolParents.get(parentId) ?? null;
+    return parentId;
+  };
+
+  return messages
+    .filter((message) => message.role !== 'tool')
+    .map((message) => ({ ...message, parent_id: resolve(message.parent_id) }));
+}
@@ -0,0 +1,67 @@
+import { Message } from '@/lib/supabaseClient';
+import type { ContextUsage } from '@/lib/chatContext';
+
+// Events sent from /api/chat to the client as server-sent events
+export type ChatStreamEvent =
+  // userMessage is omitted when regenerating an existing turn; content is the
+  // text the reply starts with when it continues a stopped one
+  | { type: 'start'; messageId: string; parentId: string; userMessage?: Message; content?: string }
+  | { type: 'context'; usage: ContextUsage }
+  | { type: 'delta'; content: string }
+  // A tool step was saved; the reply continues below it and its text so far
+  // is discarded
+  | { type: 'tool'; message: Message }
+  | { type: 'done'; message: Message }
+  // Sent after done when the chat was given a generated title
+  | { type: 'title'; title: string }
+  | { type: 'error'; error: string };
+
+const encoder = new TextEncoder();
+
+/**
+ * Encodes a chat stream event as a single SSE `data:` frame
+ * @param event Event to send to the client
+ * @returns Encoded bytes ready to enqueue on a ReadableStream
+ */
+export function encodeChatEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Reads chat stream events from a /api/chat response body
+ * @param body Response body returned by fetch
+ * @returns Async iterator of parsed events, in the order they were sent
+ */
+export async function* readChatEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Frames are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        for (const line of frame.split('\n')) {
+          if (line.startsWith('data: ')) {
+            yield JSON.parse(line.slice(6)) as ChatStreamEvent;
+          }
+        }
+
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
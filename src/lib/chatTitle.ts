@@ -0,0 +1,81 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Chat } from '@/lib/supabaseClient';
+import { ChatProvider, ChatCompletionMessage } from '@/lib/ai';
+import { toCompletionOptions } from '@/lib/chatSettings';
+import { recordUsage } from '@/lib/usage';
+
+// Title of a chat created without one; it is replaced after the first exchange
+export const DEFAULT_CHAT_TITLE = 'New Chat';
+
+const MAX_TITLE_LENGTH = 80;
+
+const TITLE_INSTRUCTIONS =
+  'Write a short title (at most six words) for the conversation below. ' +
+  'Reply with the title only, without quotes or a trailing period.';
+
+/**
+ * Whether a chat still waits for a generated title
+ * @param chat Chat that just received a reply
+ */
+export function needsGeneratedTitle(chat: Chat): boolean {
+  return !chat.title_locked && chat.title === DEFAULT_CHAT_TITLE;
+}
+
+/**
+ * Generates a title from an exchange with the chat's model and saves it,
+ * unless the user locked the title in the meantime
+ * @param supabaseClient Client for the current request
+ * @param chat Chat to title
+ * @param provider Provider used for the chat
+ * @param exchange The user message and the assistant reply
+ * @returns The saved title, or null when nothing was saved
+ */
+export async function generateChatTitle(
+  supabaseClient: SupabaseClient,
+  chat: Chat,
+  provider: ChatProvider,
+  exchange: { userContent: string; assistantContent: string }
+): Promise<string | null> {
+  const prompt: ChatCompletionMessage[] = [
+    { role: 'system', content: TITLE_INSTRUCTIONS },
+    {
+      role: 'user',
+      content: `User: ${exchange.userContent}\n\nAssistant: ${exchange.assistantContent}`,
+    },
+  ];
+
+  const startedAt = Date.now();
+  const { content, model, usage } = await provider.complete(prompt, {
+    model: toCompletionOptions(chat, provider.capabilities).model,
+    temperature: 0.3,
+    maxTokens: 20,
+  });
+
+  await recordUsage(supabaseClient, chat, {
+    purpose: 'title',
+    model,
+    prompt,
+    reply: content,
+    usage,
+    latencyMs: Date.now() - startedAt,
+  });
+
+  const title = content
+    .split('\n')[0]
+    .replace(/^["'\s]+|["'.\s]+$/g, '')
+    .slice(0, MAX_TITLE_LENGTH)
+    .trim();
+  if (!title) return null;
+
+  // The conditions make a lock or a rename that raced with generation win
+  const { data, error } = await supabaseClient
+    .from('chats')
+    .update({ title })
+    .eq('id', chat.id)
+    .eq('title', DEFAULT_CHAT_TITLE)
+    .eq('title_locked', false)
+    .select('id');
+
+  if (error) throw error;
+  return data.length > 0 ? title : null;
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+
+// Error thrown inside API routes that maps directly onto an HTTP response
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// 429 for a request over a rate limit or quota; retryAfter is in seconds
+export class RateLimitError extends ApiError {
+  constructor(
+    code: string,
+    message: string,
+    public retryAfter: number,
+    details?: unknown
+  ) {
+    super(429, code, message, details);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Converts an error thrown in an API route into a JSON response
+ * @param error Error caught by the route
+ * @returns `{ error, code, details? }` with the matching status, or a 500
+ */
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      {
+        error: error.message,
+        code: error.code,
+        ...(error.details !== undefined ? { details: error.details } : {}),
+      },
+      {
+        status: error.status,
+        headers:
+          error instanceof RateLimitError
+            ? { 'Retry-After': String(error.retryAfter) }
+            : undefined,
+      }
+    );
+  }
+
+  console.error('Unhandled API error:', error);
+  return NextResponse.json(
+    { error: 'Internal server error', code: 'internal_error' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,38 @@
+export const MAX_KNOWLEDGE_BASE_NAME_LENGTH = 100;
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+// Text of a document beyond this is not indexed
+export const MAX_DOCUMENT_CHARS = 1_000_000;
+
+// Row of the knowledge_bases table
+export type KnowledgeBase = {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+};
+
+// Row of the knowledge_documents table
+export type KnowledgeDocument = {
+  id: string;
+  knowledge_base_id: string;
+  user_id: string;
+  name: string;
+  content_type: string;
+  size: number;
+  chunk_count: number;
+  // Set when only the first MAX_DOCUMENT_CHARS characters were indexed
+  truncated: boolean;
+  created_at: string;
+};
+
+// A source the reply was given, saved on the assistant message. The model
+// cites it as [index].
+export type Citation = {
+  index: number;
+  chunkId: string;
+  documentId: string;
+  documentName: string;
+  // Position of the chunk in its document, from 0
+  chunkIndex: number;
+};
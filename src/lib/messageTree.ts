@@ -0,0 +1,105 @@
+import type { Message } from '@/lib/supabaseClient';
+
+type TreeNode = Pick<Message, 'id' | 'parent_id' | 'created_at'>;
+
+// Key used for the children of a parent; root messages share ROOT_KEY
+export const ROOT_KEY = 'root';
+
+export function parentKey(parentId: string | null): string {
+  return parentId ?? ROOT_KEY;
+}
+
+function byCreatedAt(a: TreeNode, b: TreeNode): number {
+  return a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id);
+}
+
+/**
+ * Groups messages by parent. A message whose parent isn't in the list, as
+ * when only the newest messages of a chat are loaded, counts as a root.
+ * @param messages Messages of one chat
+ * @returns Children of each parent key, oldest first
+ */
+export function groupChildren<T extends TreeNode>(messages: T[]): Map<string, T[]> {
+  const ids = new Set(messages.map((message) => message.id));
+  const children = new Map<string, T[]>();
+  for (const message of messages) {
+    const key =
+      message.parent_id && ids.has(message.parent_id) ? message.parent_id : ROOT_KEY;
+    children.set(key, [...(children.get(key) || []), message]);
+  }
+  children.forEach((siblings) => siblings.sort(byCreatedAt));
+  return children;
+}
+
+/**
+ * Follows parent pointers from a message up to the root
+ * @param messages Messages of one chat
+ * @param leafId Message the path ends at
+ * @returns Messages from the root down to leafId, or [] if leafId is unknown
+ */
+export function getPathTo<T extends TreeNode>(messages: T[], leafId: string): T[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: T[] = [];
+
+  let current = byId.get(leafId);
+  while (current && path.length <= messages.length) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Returns the path through the newest message of the chat
+ * @param messages Messages of one chat
+ * @returns Messages from the root down to the most recently created message
+ */
+export function getLatestPath<T extends TreeNode>(messages: T[]): T[] {
+  if (messages.length === 0) return [];
+  const latest = messages.reduce((a, b) => (byCreatedAt(a, b) >= 0 ? a : b));
+  return getPathTo(messages, latest.id);
+}
+
+/**
+ * Resolves the branch currently shown to the user
+ * @param messages Messages of one chat
+ * @param selections Chosen child id per parent key; where nothing is
+ * chosen, the branch holding the newest message wins
+ * @returns Messages on the selected path, root first
+ */
+export function getActivePath<T extends TreeNode>(
+  messages: T[],
+  selections: Record<string, string>
+): T[] {
+  const children = groupChildren(messages);
+
+  // Newest created_at found anywhere below each message
+  const latestBelow = new Map<string, string>();
+  const latestOf = (message: T): string => {
+    const cached = latestBelow.get(message.id);
+    if (cached) return cached;
+    let latest = message.created_at;
+    for (const child of children.get(message.id) || []) {
+      const childLatest = latestOf(child);
+      if (childLatest > latest) latest = childLatest;
+    }
+    latestBelow.set(message.id, latest);
+    return latest;
+  };
+
+  const path: T[] = [];
+  let key = ROOT_KEY;
+
+  while (children.has(key)) {
+    const siblings = children.get(key)!;
+    // A root whose parent isn't loaded is chosen under its real parent
+    const next =
+      siblings.find((sibling) => selections[parentKey(sibling.parent_id)] === sibling.id) ||
+      siblings.reduce((a, b) => (latestOf(b) > latestOf(a) ? b : a));
+    path.push(next);
+    key = next.id;
+  }
+
+  return path;
+}
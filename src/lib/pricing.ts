@@ -0,0 +1,54 @@
+import type { TokenUsage } from '@/lib/ai';
+
+// USD per million tokens
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+// List prices of common OpenAI models, matched by prefix (more specific
+// prefixes first). AI_MODEL_PRICES adds to or overrides these.
+const DEFAULT_MODEL_PRICES: [string, ModelPrice][] = [
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['gpt-4-turbo', { input: 10, output: 30 }],
+  ['gpt-4', { input: 30, output: 60 }],
+  ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+  ['text-embedding-3-small', { input: 0.02, output: 0 }],
+  ['text-embedding-3-large', { input: 0.13, output: 0 }],
+  ['text-embedding-ada-002', { input: 0.1, output: 0 }],
+  ['mock-', { input: 0, output: 0 }],
+];
+
+let modelPrices: [string, ModelPrice][] | null = null;
+
+// AI_MODEL_PRICES is a JSON object such as {"llama3": {"input": 0, "output": 0}}.
+// Its entries are matched before the defaults.
+function getModelPrices(): [string, ModelPrice][] {
+  if (!modelPrices) {
+    const configured = process.env.AI_MODEL_PRICES
+      ? (Object.entries(JSON.parse(process.env.AI_MODEL_PRICES)) as [string, ModelPrice][])
+      : [];
+    // Longer prefixes first, so "gpt-4o-mini" wins over "gpt-4o"
+    configured.sort(([a], [b]) => b.length - a.length);
+    modelPrices = [...configured, ...DEFAULT_MODEL_PRICES];
+  }
+  return modelPrices;
+}
+
+/**
+ * Estimates what a request cost
+ * @param model Model the request used
+ * @param usage Token counts of the request
+ * @returns Cost in USD, or null when the model has no known price
+ */
+export function estimateCost(model: string, usage: TokenUsage): number | null {
+  const match = getModelPrices().find(([prefix]) => model.startsWith(prefix));
+  if (!match) return null;
+
+  const [, price] = match;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,105 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Chat } from '@/lib/supabaseClient';
+
+// System prompt of chats created without one from the library
+export const DEFAULT_SYSTEM_PROMPT = 'You are a helpful assistant.';
+
+export const MAX_PROMPT_NAME_LENGTH = 100;
+export const MAX_PROMPT_LENGTH = 10000;
+
+// Row of the prompts table: a named system prompt in a user's library
+export type SavedPrompt = {
+  id: string;
+  user_id: string;
+  name: string;
+  content: string;
+  // Set while a copy link exists
+  share_token: string | null;
+  created_at: string;
+};
+
+// Variables filled in on the server when the context is built. Any other
+// {{name}} in a prompt is a custom field the user fills in per chat.
+export const BUILT_IN_VARIABLES: Record<string, string> = {
+  date: "Today's date (UTC), e.g. 2025-01-31",
+  time: 'Current time (UTC), e.g. 14:05',
+  'user.email': 'Email address of the user sending the message',
+  'chat.title': 'Title of the chat',
+};
+
+// {{name}}, {{ name }} or {{user.email}}
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g;
+
+/**
+ * Lists the custom fields of a prompt template
+ * @param template Prompt text
+ * @returns Names of the variables that aren't built in, in order of first use
+ */
+export function getCustomVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const [, name] of template.matchAll(VARIABLE_PATTERN)) {
+    if (!(name in BUILT_IN_VARIABLES)) names.add(name);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Replaces {{name}} placeholders in a prompt template
+ * @param template Prompt text
+ * @param values Value of each variable
+ * @returns The prompt with every known variable filled in; placeholders
+ * without a value are left as they are
+ */
+export function renderPrompt(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
+
+/**
+ * Resolves a chat's system prompt for the model, filling in the built-in
+ * variables and the chat's custom fields
+ * @param chat Chat whose system prompt and prompt_variables are used
+ * @param user The user the request is for; in shared chats the member who
+ * sent the message
+ * @param now Time the date and time variables refer to
+ * @returns Resolved prompt, or null when the chat has none
+ */
+export function resolveSystemPrompt(
+  chat: Pick<Chat, 'title' | 'system_prompt' | 'prompt_variables'>,
+  user: { email?: string },
+  now = new Date()
+): string | null {
+  if (!chat.system_prompt) return null;
+
+  const iso = now.toISOString();
+  return renderPrompt(chat.system_prompt, {
+    // Custom fields can't override the built-in variables
+    ...(chat.prompt_variables || {}),
+    date: iso.slice(0, 10),
+    time: iso.slice(11, 16),
+    'user.email': user.email || '',
+    'chat.title': chat.title,
+  });
+}
+
+/**
+ * Loads a prompt by its copy link token
+ * @param adminClient Service role client; the token is the only authorization
+ * @param token Token from the copy link
+ * @returns Name and text of the prompt, or null when the link doesn't exist
+ * or was revoked
+ */
+export async function loadSharedPrompt(
+  adminClient: SupabaseClient,
+  token: string
+): Promise<Pick<SavedPrompt, 'name' | 'content'> | null> {
+  const { data, error } = await adminClient
+    .from('prompts')
+    .select('name, content')
+    .eq('share_token', token)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Pick<SavedPrompt, 'name' | 'content'> | null;
+}
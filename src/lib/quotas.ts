@@ -0,0 +1,188 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RateLimitError } from '@/lib/errors';
+
+// Limits of one plan; null means unlimited
+export type PlanLimits = {
+  requestsPerMinute: number | null;
+  dailyTokens: number | null;
+  monthlyTokens: number | null;
+};
+
+// Token quota over a calendar day or month (UTC)
+export type QuotaWindow = {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetAt: string;
+};
+
+// What GET /api/quota returns
+export type QuotaStatus = {
+  plan: string;
+  requestsPerMinute: number | null;
+  daily: QuotaWindow;
+  monthly: QuotaWindow;
+};
+
+// Built-in plans. RATE_LIMIT_PLANS adds to or overrides these, e.g.
+// {"team": {"requestsPerMinute": 30, "dailyTokens": 500000, "monthlyTokens": null}}
+const DEFAULT_PLANS: Record<string, PlanLimits> = {
+  free: { requestsPerMinute: 10, dailyTokens: 100_000, monthlyTokens: 1_000_000 },
+  pro: { requestsPerMinute: 60, dailyTokens: 2_000_000, monthlyTokens: 40_000_000 },
+  unlimited: { requestsPerMinute: null, dailyTokens: null, monthlyTokens: null },
+};
+
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+
+let plans: Record<string, PlanLimits> | null = null;
+
+function getPlans(): Record<string, PlanLimits> {
+  if (!plans) {
+    plans = {
+      ...DEFAULT_PLANS,
+      ...(process.env.RATE_LIMIT_PLANS ? JSON.parse(process.env.RATE_LIMIT_PLANS) : {}),
+    };
+  }
+  return plans;
+}
+
+function getDefaultPlan(): string {
+  return process.env.DEFAULT_PLAN || 'free';
+}
+
+/**
+ * Resolves the plan of a user
+ * @param supabaseClient Client for the current request
+ * @param userId User to look up
+ * @returns Plan name and its limits; unknown plans fall back to the default plan
+ */
+export async function getUserPlan(
+  supabaseClient: SupabaseClient,
+  userId: string
+): Promise<{ plan: string; limits: PlanLimits }> {
+  const { data, error } = await supabaseClient
+    .from('user_plans')
+    .select('plan')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const configured = getPlans();
+  const plan = data?.plan && configured[data.plan] ? data.plan : getDefaultPlan();
+  const limits = configured[plan];
+  if (!limits) {
+    throw new Error(`DEFAULT_PLAN "${plan}" is not a configured plan`);
+  }
+  return { plan, limits };
+}
+
+function quotaWindow(limit: number | null, used: number, resetAt: Date): QuotaWindow {
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetAt: resetAt.toISOString(),
+  };
+}
+
+/**
+ * Reports a user's plan and how much of the token quotas is left
+ * @param supabaseClient Client for the current request
+ * @param userId User to report on
+ * @returns Limits, usage and reset times of the day and month (UTC)
+ */
+export async function getQuotaStatus(
+  supabaseClient: SupabaseClient,
+  userId: string
+): Promise<QuotaStatus> {
+  const { plan, limits } = await getUserPlan(supabaseClient, userId);
+
+  const now = new Date();
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const nextDay = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  const { data, error } = await supabaseClient
+    .rpc('get_token_usage', {
+      day_start: dayStart.toISOString(),
+      month_start: monthStart.toISOString(),
+    })
+    .single();
+
+  if (error) throw error;
+  const usage = data as { daily_tokens: number; monthly_tokens: number };
+
+  return {
+    plan,
+    requestsPerMinute: limits.requestsPerMinute,
+    daily: quotaWindow(limits.dailyTokens, Number(usage.daily_tokens), nextDay),
+    monthly: quotaWindow(limits.monthlyTokens, Number(usage.monthly_tokens), nextMonth),
+  };
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second(s)`;
+  if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)} minute(s)`;
+  return `${Math.ceil(seconds / (60 * 60))} hour(s)`;
+}
+
+/**
+ * Checks a user's token quotas and request rate before a model call, and
+ * counts the request against the rate limit when it is allowed
+ * @param supabaseClient Client for the current request
+ * @param userId User making the request
+ * @returns Quota status before the request
+ * @throws RateLimitError 429 when a quota is used up or the rate limit is hit
+ */
+export async function enforceChatLimits(
+  supabaseClient: SupabaseClient,
+  userId: string
+): Promise<QuotaStatus> {
+  const status = await getQuotaStatus(supabaseClient, userId);
+
+  // Quotas are checked first so a blocked request isn't counted against the rate
+  for (const [scope, window] of [
+    ['daily', status.daily],
+    ['monthly', status.monthly],
+  ] as const) {
+    if (window.remaining === 0) {
+      const retryAfter = Math.ceil((Date.parse(window.resetAt) - Date.now()) / 1000);
+      throw new RateLimitError(
+        'quota_exceeded',
+        `You have used your ${scope} token quota. Try again in ${formatWait(retryAfter)}.`,
+        retryAfter,
+        { scope, retryAfter, limit: window.limit, resetAt: window.resetAt }
+      );
+    }
+  }
+
+  if (status.requestsPerMinute !== null) {
+    const { data, error } = await supabaseClient
+      .rpc('consume_rate_limit', {
+        max_requests: status.requestsPerMinute,
+        window_seconds: RATE_LIMIT_WINDOW_SECONDS,
+      })
+      .single();
+
+    if (error) throw error;
+    const result = data as { allowed: boolean; retry_after_seconds: number };
+
+    if (!result.allowed) {
+      throw new RateLimitError(
+        'rate_limited',
+        `Too many requests. Try again in ${formatWait(result.retry_after_seconds)}.`,
+        result.retry_after_seconds,
+        {
+          scope: 'minute',
+          retryAfter: result.retry_after_seconds,
+          limit: status.requestsPerMinute,
+          resetAt: new Date(Date.now() + result.retry_after_seconds * 1000).toISOString(),
+        }
+      );
+    }
+  }
+
+  return status;
+}
@@ -0,0 +1,271 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Chat } from '@/lib/supabaseClient';
+import { ChatProvider } from '@/lib/ai';
+import { Citation, KnowledgeBase, KnowledgeDocument } from '@/lib/knowledge';
+import { recordUsage } from '@/lib/usage';
+import { ApiError } from '@/lib/errors';
+
+// Chunks are cut at about this many characters and repeat the end of the
+// previous chunk, so a passage split between two is still found whole
+const CHUNK_SIZE = 1500;
+const CHUNK_OVERLAP = 200;
+// Texts per embedding request, and chunk rows per insert
+const BATCH_SIZE = 100;
+const DEFAULT_TOP_K = 5;
+
+// A chunk found for a query, as returned by match_knowledge_chunks
+type MatchedChunk = {
+  id: string;
+  document_id: string;
+  document_name: string;
+  chunk_index: number;
+  content: string;
+  similarity: number;
+};
+
+/**
+ * Splits a document into overlapping chunks, preferring paragraph, line,
+ * sentence and word breaks
+ * @param text Text of the document
+ * @returns Chunks in document order
+ */
+export function chunkText(text: string): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < normalized.length) {
+    let end = Math.min(start + CHUNK_SIZE, normalized.length);
+    if (end < normalized.length) {
+      // Only breaks in the second half count, so chunks don't get tiny
+      const searchFrom = start + CHUNK_SIZE / 2;
+      const window = normalized.slice(searchFrom, end);
+      const breakIndex = ['\n\n', '\n', '. ', ' ']
+        .map((separator) => window.lastIndexOf(separator))
+        .find((index) => index !== -1);
+      if (breakIndex !== undefined) end = searchFrom + breakIndex + 1;
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+
+    // Start the overlap at a word boundary
+    const overlapStart = end - CHUNK_OVERLAP;
+    const wordStart = normalized.indexOf(' ', overlapStart);
+    start = wordStart !== -1 && wordStart < end ? wordStart + 1 : overlapStart;
+  }
+
+  return chunks;
+}
+
+function requireEmbeddings(provider: ChatProvider): void {
+  if (!provider.embeddingModel) {
+    throw new ApiError(
+      501,
+      'embeddings_unavailable',
+      'Knowledge bases need an embedding model; set AI_EMBEDDING_MODEL'
+    );
+  }
+}
+
+// Embeds texts in batches and records the usage of each request
+async function embedTexts(
+  supabaseClient: SupabaseClient,
+  chat: { id: string | null },
+  provider: ChatProvider,
+  texts: string[]
+): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+    const batch = texts.slice(start, start + BATCH_SIZE);
+    const startedAt = Date.now();
+
+    let result;
+    try {
+      result = await provider.embed(batch);
+    } catch (error) {
+      console.error('Error embedding texts:', error);
+      throw new ApiError(502, 'provider_unavailable', 'Failed to create embeddings with the AI provider');
+    }
+
+    await recordUsage(supabaseClient, chat, {
+      purpose: 'embedding',
+      model: result.model,
+      prompt: batch.map((content) => ({ role: 'user' as const, content })),
+      reply: '',
+      usage: result.usage,
+      latencyMs: Date.now() - startedAt,
+    });
+    embeddings.push(...result.embeddings);
+  }
+
+  return embeddings;
+}
+
+/**
+ * Loads a knowledge base owned by the given user
+ * @param supabaseClient Client returned by requireUser
+ * @param knowledgeBaseId Knowledge base to load
+ * @param userId Expected owner
+ * @throws ApiError 404 when it does not exist or belongs to someone else
+ */
+export async function requireOwnedKnowledgeBase(
+  supabaseClient: SupabaseClient,
+  knowledgeBaseId: string,
+  userId: string
+): Promise<KnowledgeBase> {
+  const { data, error } = await supabaseClient
+    .from('knowledge_bases')
+    .select('*')
+    .eq('id', knowledgeBaseId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new ApiError(404, 'not_found', 'Knowledge base not found');
+  }
+  return data as KnowledgeBase;
+}
+
+/**
+ * Chunks and embeds a document and saves it to a knowledge base
+ * @param supabaseClient Client for the current request
+ * @param provider Provider that creates the embeddings
+ * @param document The owner, the knowledge base and the file's details
+ * @param text Text extracted from the file
+ * @returns The saved document
+ * @throws ApiError 422 when the text has nothing to index, 501 without an
+ * embedding model, 502 when embedding fails
+ */
+export async function indexDocument(
+  supabaseClient: SupabaseClient,
+  provider: ChatProvider,
+  document: Pick<
+    KnowledgeDocument,
+    'knowledge_base_id' | 'user_id' | 'name' | 'content_type' | 'size' | 'truncated'
+  >,
+  text: string
+): Promise<KnowledgeDocument> {
+  requireEmbeddings(provider);
+
+  const chunks = chunkText(text);
+  if (chunks.length === 0) {
+    throw new ApiError(422, 'unreadable_file', 'The document has no text to index');
+  }
+
+  const embeddings = await embedTexts(supabaseClient, { id: null }, provider, chunks);
+
+  const { data, error } = await supabaseClient
+    .from('knowledge_documents')
+    .insert({ ...document, chunk_count: chunks.length })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving document:', error);
+    throw new ApiError(500, 'save_failed', 'Failed to save the document');
+  }
+  const saved = data as KnowledgeDocument;
+
+  const rows = chunks.map((content, index) => ({
+    document_id: saved.id,
+    knowledge_base_id: saved.knowledge_base_id,
+    user_id: saved.user_id,
+    chunk_index: index,
+    content,
+    // pgvector reads the JSON array notation
+    embedding: JSON.stringify(embeddings[index]),
+  }));
+
+  try {
+    for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+      const { error: chunkError } = await supabaseClient
+        .from('knowledge_chunks')
+        .insert(rows.slice(start, start + BATCH_SIZE));
+      if (chunkError) throw chunkError;
+    }
+  } catch (error) {
+    // Don't leave a half-indexed document behind; its chunks go with it
+    console.error('Error saving document chunks:', error);
+    await supabaseClient.from('knowledge_documents').delete().eq('id', saved.id);
+    throw new ApiError(500, 'save_failed', 'Failed to save the document');
+  }
+
+  return saved;
+}
+
+/**
+ * Finds the chunks of the chat's knowledge bases closest to a query.
+ * KNOWLEDGE_TOP_K sets how many (5 by default).
+ * @param supabaseClient Client for the current request
+ * @param chat Chat whose knowledge bases are searched
+ * @param provider Provider that embeds the query
+ * @param query Text to search for, usually the newest user message
+ * @returns Matching chunks, closest first; empty when the chat has no
+ * knowledge bases
+ */
+export async function searchKnowledge(
+  supabaseClient: SupabaseClient,
+  chat: Chat,
+  provider: ChatProvider,
+  query: string
+): Promise<MatchedChunk[]> {
+  const { data: links, error: linkError } = await supabaseClient
+    .from('chat_knowledge_bases')
+    .select('knowledge_base_id')
+    .eq('chat_id', chat.id);
+
+  if (linkError) throw linkError;
+  if (links.length === 0) return [];
+
+  requireEmbeddings(provider);
+  const [embedding] = await embedTexts(supabaseClient, chat, provider, [query]);
+
+  const { data, error } = await supabaseClient.rpc('match_knowledge_chunks', {
+    query_embedding: JSON.stringify(embedding),
+    knowledge_base_ids: links.map((link) => link.knowledge_base_id),
+    match_count: Number(process.env.KNOWLEDGE_TOP_K) || DEFAULT_TOP_K,
+  });
+
+  if (error) throw error;
+  return data as MatchedChunk[];
+}
+
+/**
+ * Turns search results into the system message that hands them to the
+ * model, and the citations saved with the reply
+ * @param chunks Results of searchKnowledge
+ * @returns The message content, or null without results, and the citations
+ * numbered as in the message
+ */
+export function formatSources(chunks: MatchedChunk[]): {
+  content: string | null;
+  citations: Citation[];
+} {
+  if (chunks.length === 0) return { content: null, citations: [] };
+
+  const citations = chunks.map((chunk, index) => ({
+    index: index + 1,
+    chunkId: chunk.id,
+    documentId: chunk.document_id,
+    documentName: chunk.document_name,
+    chunkIndex: chunk.chunk_index,
+  }));
+
+  const blocks = chunks.map((chunk, index) => {
+    const name = chunk.document_name.replace(/"/g, "'");
+    // A closing tag inside the document would end the block early
+    const text = chunk.content.replace(/<\/source>/gi, '<\\/source>');
+    return `<source id="${index + 1}" document="${name}" part="${chunk.chunk_index + 1}">\n${text}\n</source>`;
+  });
+
+  const content =
+    "Sources from the chat's knowledge bases. Use them where they answer the user's latest message " +
+    'and cite them by number, e.g. [1] or [2][3]. If they do not contain the answer, say so instead ' +
+    `of guessing.\n\n${blocks.join('\n\n')}`;
+
+  return { content, citations };
+}
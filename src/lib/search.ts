@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+// Markers search_chats puts around matched terms in a snippet. Control
+// characters keep them apart from anything a user can type into a message.
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+// Query string accepted by GET /api/search
+export const searchQuerySchema = z
+  .object({
+    q: z
+      .string()
+      .trim()
+      .min(1, 'Search query cannot be empty')
+      .max(MAX_SEARCH_QUERY_LENGTH, `Search query cannot exceed ${MAX_SEARCH_QUERY_LENGTH} characters`),
+    limit: z.coerce.number().int().min(1).max(50).default(DEFAULT_SEARCH_LIMIT),
+  })
+  .strict();
+
+// One row returned by the search_chats database function
+export type SearchResult = {
+  chat_id: string;
+  chat_title: string;
+  // null when the chat title matched rather than a message
+  message_id: string | null;
+  message_role: 'user' | 'assistant' | 'system' | 'tool' | null;
+  snippet: string;
+  rank: number;
+  created_at: string;
+};
+
+export type SnippetSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
+/**
+ * Splits a search snippet into plain and matched parts
+ * @param snippet Snippet from search_chats
+ * @returns Segments in order, with the highlight markers removed
+ */
+export function splitSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  for (const part of snippet.split(HIGHLIGHT_START)) {
+    const end = part.indexOf(HIGHLIGHT_END);
+    const highlighted = end === -1 ? '' : part.slice(0, end);
+    const rest = end === -1 ? part : part.slice(end + HIGHLIGHT_END.length);
+    if (highlighted) segments.push({ text: highlighted, highlighted: true });
+    if (rest) segments.push({ text: rest, highlighted: false });
+  }
+  return segments;
+}
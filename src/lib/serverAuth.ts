@@ -0,0 +1,118 @@
+import { cookies, headers } from 'next/headers';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { Chat } from '@/lib/supabaseClient';
+import { ChatRole, hasChatRole } from '@/lib/chatMembers';
+import { ApiError } from '@/lib/errors';
+
+/**
+ * Creates a Supabase client that acts as the caller, so RLS applies to every
+ * query. A bearer token in the Authorization header (scripts, other services)
+ * takes precedence over the session cookies set by the browser client.
+ * @returns Client for this request and the bearer token, if one was sent
+ */
+async function createRequestClient(): Promise<{ supabase: SupabaseClient; accessToken?: string }> {
+  const authorization = (await headers()).get('authorization');
+  const accessToken = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+
+  if (accessToken) {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+      {
+        global: { headers: { Authorization: `Bearer ${accessToken}` } },
+        auth: { persistSession: false, autoRefreshToken: false },
+      }
+    );
+    return { supabase, accessToken };
+  }
+
+  // auth-helpers reads cookies synchronously, while Next.js 15 hands them out
+  // through a promise, so the resolved store is passed in
+  const cookieStore = await cookies();
+  const supabase = createRouteHandlerClient({
+    cookies: () => cookieStore as unknown as ReturnType<typeof cookies>,
+  });
+  return { supabase };
+}
+
+/**
+ * Resolves the signed-in user for an API route
+ * @returns Supabase client that acts as the user, and the authenticated user
+ * @throws ApiError 401 when there is no valid session
+ */
+export async function requireUser(): Promise<{ supabase: SupabaseClient; user: User }> {
+  const { supabase, accessToken } = await createRequestClient();
+
+  // getUser checks the token with Supabase Auth instead of trusting the cookie
+  const { data: userData, error: userError } = await supabase.auth.getUser(accessToken);
+
+  if (userError || !userData.user) {
+    throw new ApiError(401, 'unauthorized', 'Unauthorized');
+  }
+
+  return { supabase, user: userData.user };
+}
+
+/**
+ * Loads a chat owned by the given user
+ * @param supabaseClient Client returned by requireUser
+ * @param chatId Chat to load
+ * @param userId Expected owner of the chat
+ * @throws ApiError 403 when the chat does not exist or belongs to someone else
+ */
+export async function requireOwnedChat(
+  supabaseClient: SupabaseClient,
+  chatId: string,
+  userId: string
+): Promise<Chat> {
+  const { data: chatData, error: chatError } = await supabaseClient
+    .from('chats')
+    .select('*')
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .single();
+
+  if (chatError || !chatData) {
+    throw new ApiError(403, 'forbidden', 'Chat not found or access denied');
+  }
+
+  return chatData as Chat;
+}
+
+/**
+ * Loads a chat the given user is a member of
+ * @param supabaseClient Client returned by requireUser
+ * @param chatId Chat to load
+ * @param userId The member
+ * @param minimumRole Least role the action needs
+ * @returns The chat and the user's role in it
+ * @throws ApiError 403 when the chat does not exist, the user is not a
+ * member, or their role does not allow the action
+ */
+export async function requireChatAccess(
+  supabaseClient: SupabaseClient,
+  chatId: string,
+  userId: string,
+  minimumRole: ChatRole = 'viewer'
+): Promise<{ chat: Chat; role: ChatRole }> {
+  const { data, error } = await supabaseClient
+    .from('chat_members')
+    .select('role, chats(*)')
+    .eq('chat_id', chatId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error || !data?.chats) {
+    throw new ApiError(403, 'forbidden', 'Chat not found or access denied');
+  }
+
+  const role = data.role as ChatRole;
+  if (!hasChatRole(role, minimumRole)) {
+    throw new ApiError(403, 'forbidden', 'Your role in this chat does not allow this');
+  }
+
+  // Without generated database types, the client types the embedded to-one
+  // row as an array
+  return { chat: data.chats as unknown as Chat, role };
+}
@@ -0,0 +1,27 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { FileStorage } from './types';
+import { createSupabaseStorage } from './supabase';
+import { createLocalStorage } from './local';
+
+export * from './types';
+
+type StorageName = 'supabase' | 'local';
+
+/**
+ * Returns the file storage selected by the STORAGE_PROVIDER environment
+ * variable: "supabase" (default) or "local" for development
+ * @param supabaseClient Client for the current request, used by the
+ * Supabase backend so storage policies apply to the caller
+ */
+export function getFileStorage(supabaseClient: SupabaseClient): FileStorage {
+  const name = (process.env.STORAGE_PROVIDER || 'supabase') as StorageName;
+
+  switch (name) {
+    case 'supabase':
+      return createSupabaseStorage(supabaseClient, process.env.STORAGE_BUCKET || 'attachments');
+    case 'local':
+      return createLocalStorage(process.env.STORAGE_LOCAL_DIR || '.data/attachments');
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER "${name}"`);
+  }
+}
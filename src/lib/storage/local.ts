@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FileStorage } from './types';
+
+/**
+ * Stores files in a directory on the server's disk. For development only:
+ * nothing is shared between instances and access rules are not enforced
+ * beyond what the API routes check.
+ * @param rootDir Directory the files are written to, created when missing
+ */
+export function createLocalStorage(rootDir: string): FileStorage {
+  const root = path.resolve(rootDir);
+
+  // Keeps every path inside the root directory
+  const resolve = (filePath: string) => {
+    const fullPath = path.resolve(root, filePath);
+    if (!fullPath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage path "${filePath}"`);
+    }
+    return fullPath;
+  };
+
+  return {
+    name: 'local',
+
+    async upload(filePath, data) {
+      const fullPath = resolve(filePath);
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      // "wx" fails instead of overwriting, like the Supabase backend
+      await fs.writeFile(fullPath, data, { flag: 'wx' });
+    },
+
+    async download(filePath) {
+      return fs.readFile(resolve(filePath));
+    },
+
+    async remove(paths) {
+      await Promise.all(paths.map((filePath) => fs.rm(resolve(filePath), { force: true })));
+    },
+  };
+}
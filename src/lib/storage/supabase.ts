@@ -0,0 +1,33 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { FileStorage } from './types';
+
+/**
+ * Stores files in a Supabase Storage bucket
+ * @param supabaseClient Client for the current request; the bucket's policies
+ * limit each user to the folder named after their id
+ * @param bucket Name of a private bucket
+ */
+export function createSupabaseStorage(supabaseClient: SupabaseClient, bucket: string): FileStorage {
+  const files = () => supabaseClient.storage.from(bucket);
+
+  return {
+    name: 'supabase',
+
+    async upload(path, data, contentType) {
+      const { error } = await files().upload(path, data, { contentType, upsert: false });
+      if (error) throw error;
+    },
+
+    async download(path) {
+      const { data, error } = await files().download(path);
+      if (error) throw error;
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async remove(paths) {
+      if (paths.length === 0) return;
+      const { error } = await files().remove(paths);
+      if (error) throw error;
+    },
+  };
+}
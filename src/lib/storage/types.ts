@@ -0,0 +1,13 @@
+// Implemented by every backend attachments can be stored in. Paths are
+// relative, e.g. "<user id>/<chat id>/<attachment id>".
+export interface FileStorage {
+  // Identifier used in logs and STORAGE_PROVIDER
+  readonly name: string;
+
+  upload(path: string, data: Buffer, contentType: string): Promise<void>;
+
+  download(path: string): Promise<Buffer>;
+
+  // Missing files are ignored
+  remove(paths: string[]): Promise<void>;
+}
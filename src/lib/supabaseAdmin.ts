@@ -0,0 +1,23 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let adminClient: SupabaseClient | null = null;
+
+/**
+ * Supabase client with the service role key, which bypasses RLS. Server only,
+ * and only for reads the caller has been authorized for some other way, such
+ * as a share token.
+ * @throws Error when SUPABASE_SERVICE_ROLE_KEY is not set
+ */
+export function getAdminClient(): SupabaseClient {
+  if (!adminClient) {
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+    }
+    adminClient = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+  }
+  return adminClient;
+}
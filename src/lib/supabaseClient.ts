@@ -1,10 +1,17 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
+import type { Citation } from '@/lib/knowledge';
+import type { ToolCall } from '@/lib/ai/types';
 
 // These are public keys that can be exposed in the client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://your-supabase-url.supabase.co';
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'your-anon-key';
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Browser client. The session is kept in cookies so API routes and the
+// middleware see the same signed-in user (see src/lib/serverAuth.ts).
+export const supabase = createClientComponentClient({
+  supabaseUrl,
+  supabaseKey: supabaseAnonKey,
+});
 
 // Database types
 export type User = {
@@ -17,14 +24,46 @@ export type Chat = {
   id: string;
   user_id: string;
   title: string;
+  // Set when the user fixed the title; generated titles never replace it
+  title_locked: boolean;
   created_at: string;
   system_prompt: string;
+  // Values of the custom {{fields}} in system_prompt
+  prompt_variables: Record<string, string>;
+  // Generation settings; null falls back to the provider default
+  model: string | null;
+  temperature: number | null;
+  top_p: number | null;
+  max_tokens: number | null;
+  stop: string[] | null;
+  // Rolling summary of older turns and the newest message it covers
+  context_summary: string | null;
+  summary_through_id: string | null;
+  // Set when pinned to the top of the list / hidden from the default list
+  pinned_at: string | null;
+  archived_at: string | null;
+  // Lets the model call tools while it writes a reply
+  tools_enabled: boolean;
 };
 
 export type Message = {
   id: string;
   chat_id: string;
-  role: 'user' | 'assistant' | 'system';
+  // A tool message is one step of a reply: a call the model made, with the
+  // result in content
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   created_at: string;
+  // Previous message on this branch; null for the first message
+  parent_id: string | null;
+  // Knowledge base chunks an assistant reply was given; null when none
+  citations: Citation[] | null;
+  // The call a tool message answers; null for other roles
+  tool_call: ToolCall | null;
+  // Set on a reply the user stopped before it was finished
+  stopped: boolean;
+  // Idempotency key of the /api/chat request that saved it
+  client_key: string | null;
+  // Member who wrote a user message; null for other roles
+  user_id: string | null;
 };
@@ -0,0 +1,43 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import type { ChatCompletionMessage } from '@/lib/ai/types';
+
+// Every message costs a few tokens for its role and separators, and the
+// reply is primed with a few more (OpenAI's published counting rules)
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+let encoding: Tiktoken | null = null;
+
+/**
+ * Counts the tokens in a piece of text
+ * @param text Text to count
+ * @returns Token count using the cl100k_base encoding. Other providers'
+ * tokenizers differ slightly, which the context budget leaves room for.
+ */
+export function countTokens(text: string): number {
+  if (!encoding) {
+    encoding = getEncoding('cl100k_base');
+  }
+  return encoding.encode(text).length;
+}
+
+/**
+ * Counts the tokens a list of chat messages takes up in a request
+ * @param messages Messages sent to the model
+ * @returns Estimated prompt tokens, including per-message overhead
+ */
+export function countMessageTokens(messages: ChatCompletionMessage[]): number {
+  return (
+    messages.reduce(
+      (total, message) =>
+        total +
+        TOKENS_PER_MESSAGE +
+        countTokens(message.content) +
+        (message.toolCalls || []).reduce(
+          (sum, call) => sum + countTokens(call.name) + countTokens(call.arguments),
+          0
+        ),
+      0
+    ) + TOKENS_PER_REPLY
+  );
+}
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { defineTool } from './types';
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  log: Math.log10,
+  ln: Math.log,
+  exp: Math.exp,
+  pow: Math.pow,
+  min: Math.min,
+  max: Math.max,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const TOKEN_PATTERN = /\s*(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_]\w*|\*\*|[-+*/%^(),])/giy;
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      if (expression.slice(start).trim() === '') break;
+      throw new Error(`Unexpected character at position ${start + 1}`);
+    }
+    tokens.push(match[1] === '**' ? '^' : match[1].toLowerCase());
+  }
+
+  return tokens;
+}
+
+/**
+ * Evaluates an arithmetic expression without eval. Supports + - * / % ^,
+ * parentheses, the functions in FUNCTIONS and the constants pi and e.
+ * @param expression Expression such as "2 * (3 + 4) ^ 2"
+ * @returns The result
+ * @throws Error when the expression is malformed or the result isn't finite
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) {
+      throw new Error(`Expected "${token}"${position < tokens.length ? ` before "${tokens[position]}"` : ''}`);
+    }
+    position++;
+  };
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      const operator = tokens[position++];
+      const right = parseTerm();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (("*" | "/" | "%") unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = tokens[position++];
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ("-" | "+") unary | power, so -2^2 is -(2^2)
+  const parseUnary = (): number => {
+    if (peek() === '-' || peek() === '+') {
+      const operator = tokens[position++];
+      const value = parseUnary();
+      return operator === '-' ? -value : value;
+    }
+    return parsePower();
+  };
+
+  // power := primary ("^" unary)?, right-associative
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') {
+      position++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  // primary := number | constant | function "(" arguments ")" | "(" expression ")"
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      throw new Error('Unexpected end of expression');
+    }
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) {
+      return Number(token);
+    }
+    if (Object.hasOwn(FUNCTIONS, token)) {
+      expect('(');
+      const args = [parseExpression()];
+      while (peek() === ',') {
+        position++;
+        args.push(parseExpression());
+      }
+      expect(')');
+      return FUNCTIONS[token](...args);
+    }
+    if (Object.hasOwn(CONSTANTS, token)) {
+      return CONSTANTS[token];
+    }
+    throw new Error(`Unknown name or symbol "${token}"`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}"`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('The result is not a finite number');
+  }
+  return result;
+}
+
+export const calculatorTool = defineTool({
+  name: 'calculator',
+  description:
+    'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, ' +
+    'sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, log (base 10), ln, exp, ' +
+    'pow, min, max and the constants pi and e. Use it instead of doing arithmetic yourself.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Expression to evaluate, e.g. "(1.5 + 2) * 3^2"' },
+    },
+    required: ['expression'],
+    additionalProperties: false,
+  },
+  args: z.object({ expression: z.string().min(1).max(1000) }),
+  async run({ expression }) {
+    return { expression, result: evaluateExpression(expression) };
+  },
+});
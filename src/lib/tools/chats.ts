@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { Message } from '@/lib/supabaseClient';
+import { getLatestPath } from '@/lib/messageTree';
+import { SearchResult, splitSnippet } from '@/lib/search';
+import { defineTool } from './types';
+
+const DEFAULT_CHAT_LIMIT = 10;
+const MAX_CHAT_LIMIT = 20;
+// Supabase returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+type StoredMessage = Pick<Message, 'id' | 'role' | 'content' | 'parent_id' | 'created_at'>;
+
+// Both tools return the user's other chats, so they are personal: their
+// results are saved as tool steps that every member of the chat can read
+export const listChatsTool = defineTool({
+  name: 'list_chats',
+  personal: true,
+  description:
+    "Lists the user's other chats, newest first, or searches their titles and messages. " +
+    'Use read_chat with a returned id to see a conversation.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Words to search for; omit to list the most recent chats' },
+      limit: { type: 'integer', minimum: 1, maximum: MAX_CHAT_LIMIT, description: 'Most chats to return' },
+    },
+    additionalProperties: false,
+  },
+  args: z.object({
+    query: z.string().trim().max(200).optional(),
+    limit: z.number().int().min(1).max(MAX_CHAT_LIMIT).default(DEFAULT_CHAT_LIMIT),
+  }),
+  async run({ query, limit }, { supabaseClient, user, chat }) {
+    if (query) {
+      // One row per matching message, so ask for extra and keep each chat once
+      const { data, error } = await supabaseClient.rpc('search_chats', {
+        search_query: query,
+        result_limit: limit * 3,
+      });
+      if (error) throw error;
+      const results = data as SearchResult[];
+
+      // Search also finds chats others shared with the user, which aren't
+      // theirs to hand to the model
+      const { data: owned, error: ownedError } = await supabaseClient
+        .from('chats')
+        .select('id')
+        .eq('user_id', user.id)
+        .in('id', Array.from(new Set(results.map((result) => result.chat_id))));
+      if (ownedError) throw ownedError;
+      const ownedIds = new Set(owned.map((row) => row.id as string));
+
+      const seen = new Set<string>([chat.id]);
+      const chats = [];
+      for (const result of results) {
+        if (seen.has(result.chat_id) || !ownedIds.has(result.chat_id)) continue;
+        seen.add(result.chat_id);
+        chats.push({
+          id: result.chat_id,
+          title: result.chat_title,
+          match: splitSnippet(result.snippet).map((segment) => segment.text).join(''),
+        });
+      }
+      return { chats: chats.slice(0, limit) };
+    }
+
+    const { data, error } = await supabaseClient
+      .from('chats')
+      .select('id, title, created_at')
+      .eq('user_id', user.id)
+      .neq('id', chat.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return { chats: data };
+  },
+});
+
+export const readChatTool = defineTool({
+  name: 'read_chat',
+  personal: true,
+  description:
+    "Reads the messages of one of the user's other chats, following its most recent branch.",
+  parameters: {
+    type: 'object',
+    properties: {
+      chatId: { type: 'string', description: 'Id returned by list_chats' },
+    },
+    required: ['chatId'],
+    additionalProperties: false,
+  },
+  args: z.object({ chatId: z.string().uuid() }),
+  async run({ chatId }, { supabaseClient, user, chat }) {
+    if (chatId === chat.id) {
+      throw new Error('That is the current chat; its messages are already in the conversation');
+    }
+
+    const { data: found, error: chatError } = await supabaseClient
+      .from('chats')
+      .select('id, title')
+      .eq('id', chatId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (chatError) throw chatError;
+    if (!found) throw new Error('Chat not found');
+
+    const stored: StoredMessage[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabaseClient
+        .from('messages')
+        .select('id, role, content, parent_id, created_at')
+        .eq('chat_id', chatId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      stored.push(...(data as StoredMessage[]));
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    // Only what was said; tool steps stay in their own chat
+    const messages = getLatestPath(stored)
+      .filter((message) => message.role === 'user' || message.role === 'assistant')
+      .map(({ role, content }) => ({ role, content }));
+
+    return { title: found.title, messages };
+  },
+});
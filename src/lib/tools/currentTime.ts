@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { defineTool } from './types';
+
+export const currentTimeTool = defineTool({
+  name: 'current_time',
+  description:
+    'Returns the current date and time, in UTC and optionally in an IANA time zone such as "Europe/Berlin".',
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone name; omit for UTC only' },
+    },
+    additionalProperties: false,
+  },
+  args: z.object({ timeZone: z.string().min(1).max(100).optional() }),
+  async run({ timeZone }) {
+    const now = new Date();
+    if (!timeZone) {
+      return { utc: now.toISOString() };
+    }
+
+    // Throws a RangeError for unknown zones, which goes back to the model
+    const local = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      dateStyle: 'full',
+      timeStyle: 'long',
+    }).format(now);
+    return { utc: now.toISOString(), timeZone, local };
+  },
+});
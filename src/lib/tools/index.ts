@@ -0,0 +1,84 @@
+import { ZodError } from 'zod';
+import type { ToolCall, ToolDefinition } from '@/lib/ai';
+import { Tool, ToolContext } from './types';
+import { calculatorTool } from './calculator';
+import { currentTimeTool } from './currentTime';
+import { listChatsTool, readChatTool } from './chats';
+
+export type { Tool, ToolContext } from './types';
+
+// Results longer than this are cut before they go back to the model
+const MAX_TOOL_RESULT_CHARS = 8000;
+const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+
+const tools: Tool[] = [calculatorTool, currentTimeTool, listChatsTool, readChatTool];
+const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+/**
+ * Returns the definitions of the registered tools, as offered to the model
+ * @param shared Whether the chat has other members; personal tools are
+ * left out then
+ * @returns Tool definitions
+ */
+export function getToolDefinitions(shared: boolean): ToolDefinition[] {
+  return tools
+    .filter((tool) => !(shared && tool.personal))
+    .map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+/**
+ * Returns how many rounds of tool calls one reply may make before the model
+ * has to answer. AI_MAX_TOOL_ITERATIONS sets it (5 by default).
+ * @returns Maximum number of tool rounds
+ */
+export function getMaxToolIterations(): number {
+  return Number(process.env.AI_MAX_TOOL_ITERATIONS) || DEFAULT_MAX_TOOL_ITERATIONS;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ZodError) {
+    return `Invalid arguments: ${error.issues
+      .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ')}`;
+  }
+  return error instanceof Error ? error.message : 'The tool failed';
+}
+
+/**
+ * Runs a tool call made by the model. Failures are returned as the result
+ * rather than thrown, so the model can see what went wrong and try again.
+ * @param call Call from the model
+ * @param context The user and chat the call was made in
+ * @returns Result text for the tool message, JSON for structured results
+ */
+export async function runToolCall(call: ToolCall, context: ToolContext): Promise<string> {
+  const tool = toolsByName.get(call.name);
+
+  let result: unknown;
+  try {
+    if (!tool) {
+      throw new Error(`Unknown tool "${call.name}"`);
+    }
+    // The model may still name a tool it was offered before the chat was shared
+    if (tool.personal && context.shared) {
+      throw new Error(`"${call.name}" is not available in chats with other members`);
+    }
+
+    let args: unknown;
+    try {
+      args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    } catch {
+      throw new Error('Arguments are not valid JSON');
+    }
+
+    result = await tool.run(args, context);
+  } catch (error) {
+    console.error(`Error running tool ${call.name}:`, error);
+    result = { error: describeError(error) };
+  }
+
+  const text = typeof result === 'string' ? result : JSON.stringify(result);
+  return text.length > MAX_TOOL_RESULT_CHARS
+    ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}\n[Result truncated]`
+    : text;
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { SupabaseClient, User } from '@supabase/supabase-js';
+import { Chat } from '@/lib/supabaseClient';
+import type { ToolDefinition } from '@/lib/ai';
+
+// What a tool runs with: the caller's client and the chat it was called in
+export type ToolContext = {
+  supabaseClient: SupabaseClient;
+  user: User;
+  chat: Chat;
+  // Whether the chat has other members, who can read its tool steps
+  shared: boolean;
+};
+
+// A tool in the registry. run receives the arguments still unchecked.
+export type Tool = ToolDefinition & {
+  // Returns the caller's private data, so it is left out of shared chats
+  personal?: boolean;
+  run(args: unknown, context: ToolContext): Promise<unknown>;
+};
+
+/**
+ * Defines a tool whose arguments are checked before it runs
+ * @param tool Name, description and JSON Schema shown to the model, the zod
+ * schema that validates the arguments against it, and the implementation
+ * @returns Tool for the registry; its result is sent back to the model
+ */
+export function defineTool<S extends z.ZodTypeAny>(
+  tool: ToolDefinition & {
+    personal?: boolean;
+    args: S;
+    run(args: z.infer<S>, context: ToolContext): Promise<unknown>;
+  }
+): Tool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    personal: tool.personal,
+    run: (args, context) => tool.run(tool.args.parse(args), context),
+  };
+}
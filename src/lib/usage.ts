@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { ChatCompletionMessage, TokenUsage } from '@/lib/ai';
+import { countMessageTokens, countTokens } from '@/lib/tokens';
+import { estimateCost } from '@/lib/pricing';
+
+export type UsagePurpose = 'reply' | 'summary' | 'title' | 'embedding';
+
+// A row of the usage_records table
+export type UsageRecord = {
+  id: string;
+  user_id: string;
+  chat_id: string | null;
+  message_id: string | null;
+  purpose: UsagePurpose;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  estimated: boolean;
+  latency_ms: number;
+  cost: number | null;
+  created_at: string;
+};
+
+/**
+ * Saves the token counts, latency and estimated cost of one model request.
+ * The row belongs to the signed-in user, who may be a member of someone
+ * else's chat. Failures are logged and never reach the user.
+ * @param supabaseClient Client for the current request
+ * @param chat Chat the request was made for; requests outside a chat, such as
+ * indexing a knowledge base document, pass a null id
+ * @param request What was sent and received; usage is estimated locally
+ * when the backend did not report it
+ */
+export async function recordUsage(
+  supabaseClient: SupabaseClient,
+  chat: { id: string | null },
+  request: {
+    purpose: UsagePurpose;
+    model: string;
+    prompt: ChatCompletionMessage[];
+    reply: string;
+    usage?: TokenUsage;
+    latencyMs: number;
+    messageId?: string;
+  }
+): Promise<void> {
+  try {
+    const usage = request.usage ?? {
+      promptTokens: countMessageTokens(request.prompt),
+      completionTokens: countTokens(request.reply),
+    };
+
+    const { error } = await supabaseClient.from('usage_records').insert([
+      {
+        // user_id is set by the database from the caller's session
+        chat_id: chat.id,
+        message_id: request.messageId ?? null,
+        purpose: request.purpose,
+        model: request.model,
+        prompt_tokens: usage.promptTokens,
+        completion_tokens: usage.completionTokens,
+        estimated: !request.usage,
+        latency_ms: Math.round(request.latencyMs),
+        cost: estimateCost(request.model, usage),
+      },
+    ]);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error recording usage:', error);
+  }
+}
+
+// Query string accepted by GET /api/usage
+export const usageQuerySchema = z
+  .object({
+    days: z.coerce.number().int().min(1).max(365).default(30),
+    format: z.enum(['json', 'csv']).default('json'),
+  })
+  .strict();
+
+export type UsageTotals = {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Sum of the requests with a known price
+  cost: number;
+  averageLatencyMs: number;
+};
+
+// What GET /api/usage returns
+export type UsageSummary = {
+  since: string;
+  totals: UsageTotals;
+  // Newest day first, days in UTC
+  byDay: (UsageTotals & { day: string })[];
+  // Most expensive first; chatId is null for deleted chats
+  byChat: (UsageTotals & { chatId: string | null; title: string | null })[];
+  byModel: (UsageTotals & { model: string })[];
+};
+
+// Rows as loaded for the summary, with the chat's current title
+export type UsageRow = UsageRecord & { chats: { title: string } | null };
+
+function totalsOf(rows: UsageRow[]): UsageTotals {
+  const latency = rows.reduce((sum, row) => sum + row.latency_ms, 0);
+  return {
+    requests: rows.length,
+    promptTokens: rows.reduce((sum, row) => sum + row.prompt_tokens, 0),
+    completionTokens: rows.reduce((sum, row) => sum + row.completion_tokens, 0),
+    cost: rows.reduce((sum, row) => sum + Number(row.cost ?? 0), 0),
+    averageLatencyMs: rows.length > 0 ? Math.round(latency / rows.length) : 0,
+  };
+}
+
+function groupBy(rows: UsageRow[], keyOf: (row: UsageRow) => string): Map<string, UsageRow[]> {
+  const groups = new Map<string, UsageRow[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return groups;
+}
+
+/**
+ * Breaks a user's usage down by day, chat and model
+ * @param rows Usage rows of one user
+ * @param since Start of the period the rows cover
+ * @returns Totals for the period and each breakdown
+ */
+export function summarizeUsage(rows: UsageRow[], since: string): UsageSummary {
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.cost - a.cost || b.requests - a.requests;
+
+  return {
+    since,
+    totals: totalsOf(rows),
+    byDay: Array.from(groupBy(rows, (row) => row.created_at.slice(0, 10)))
+      .map(([day, group]) => ({ day, ...totalsOf(group) }))
+      .sort((a, b) => b.day.localeCompare(a.day)),
+    byChat: Array.from(groupBy(rows, (row) => row.chat_id ?? ''))
+      .map(([chatId, group]) => ({
+        chatId: chatId || null,
+        title: group[0].chats?.title ?? null,
+        ...totalsOf(group),
+      }))
+      .sort(byCost),
+    byModel: Array.from(groupBy(rows, (row) => row.model))
+      .map(([model, group]) => ({ model, ...totalsOf(group) }))
+      .sort(byCost),
+  };
+}
+
+function csvField(value: string | number | boolean | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders usage rows as CSV, one line per request
+ * @param rows Usage rows of one user
+ * @returns CSV text with a header line
+ */
+export function toUsageCsv(rows: UsageRow[]): string {
+  const header = [
+    'created_at',
+    'chat_id',
+    'chat_title',
+    'message_id',
+    'purpose',
+    'model',
+    'prompt_tokens',
+    'completion_tokens',
+    'estimated',
+    'latency_ms',
+    'cost_usd',
+  ];
+  const lines = rows.map((row) =>
+    [
+      row.created_at,
+      row.chat_id,
+      row.chats?.title ?? null,
+      row.message_id,
+      row.purpose,
+      row.model,
+      row.prompt_tokens,
+      row.completion_tokens,
+      row.estimated,
+      row.latency_ms,
+      row.cost,
+    ]
+      .map(csvField)
+      .join(',')
+  );
+
+  return [header.join(','), ...lines].map((line) => `${line}\n`).join('');
+}
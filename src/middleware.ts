@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createMiddlewareClient } from '@supabase/auth-helpers-nextjs';
+
+// Pages that need a signed-in user. API routes check the session themselves
+// and answer 401 instead of redirecting.
+const PROTECTED_PATHS = [
+  '/chat',
+  '/usage',
+  '/prompts',
+  '/knowledge',
+  '/account',
+  '/auth/reset-password',
+];
+
+export async function middleware(req: NextRequest) {
+  const res = NextResponse.next();
+
+  // Reading the session refreshes an expired one and writes the new cookies
+  // to the response
+  const supabase = createMiddlewareClient({ req, res });
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const { pathname, search } = req.nextUrl;
+  const isProtected = PROTECTED_PATHS.some(
+    (path) => pathname === path || pathname.startsWith(`${path}/`)
+  );
+
+  if (isProtected && !session) {
+    // The home page signs the user in and sends them back to `next`
+    const signInUrl = req.nextUrl.clone();
+    signInUrl.pathname = '/';
+    signInUrl.search = `?next=${encodeURIComponent(pathname + search)}`;
+    return NextResponse.redirect(signInUrl);
+  }
+
+  return res;
+}
+
+export const config = {
+  matcher: ['/((?!api/|_next/static|_next/image|favicon.ico).*)'],
+};
@@ -0,0 +1,14 @@
+/**
+ * Formats a byte count for display
+ * @param bytes Size in bytes
+ * @returns Size string, e.g. "512 B", "14.2 KB" or "3.1 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,34 @@
+-- Initial GhostChat schema: chats and messages owned through auth.users
+create extension if not exists "uuid-ossp";
+
+create table chats (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users(id) not null,
+  title text not null,
+  system_prompt text,
+  created_at timestamp with time zone default now() not null
+);
+
+alter table chats enable row level security;
+create policy "Users can create their own chats" on chats for insert with check (auth.uid() = user_id);
+create policy "Users can view their own chats" on chats for select using (auth.uid() = user_id);
+create policy "Users can update their own chats" on chats for update using (auth.uid() = user_id);
+create policy "Users can delete their own chats" on chats for delete using (auth.uid() = user_id);
+
+create table messages (
+  id uuid default uuid_generate_v4() primary key,
+  chat_id uuid references chats(id) on delete cascade not null,
+  role text not null,
+  content text not null,
+  created_at timestamp with time zone default now() not null
+);
+
+alter table messages enable row level security;
+create policy "Users can insert messages into their chats" on messages
+  for insert with check (
+    auth.uid() = (select user_id from chats where id = chat_id)
+  );
+create policy "Users can view messages in their chats" on messages
+  for select using (
+    auth.uid() = (select user_id from chats where id = chat_id)
+  );
@@ -0,0 +1,7 @@
+-- Per-chat model and generation settings. NULL means "use the provider default".
+alter table chats
+  add column model text,
+  add column temperature real check (temperature >= 0 and temperature <= 2),
+  add column top_p real check (top_p > 0 and top_p <= 1),
+  add column max_tokens integer check (max_tokens > 0),
+  add column stop text[] check (cardinality(stop) <= 4);
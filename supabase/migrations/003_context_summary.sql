@@ -0,0 +1,5 @@
+-- Rolling summary of the turns that no longer fit in the model's context window.
+-- summary_through_id is the newest message folded into the summary.
+alter table chats
+  add column context_summary text,
+  add column summary_through_id uuid references messages(id) on delete set null;
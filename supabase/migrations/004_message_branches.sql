@@ -0,0 +1,16 @@
+-- Messages form a tree: editing a prompt or regenerating a reply adds a
+-- sibling under the same parent instead of overwriting the original.
+alter table messages
+  add column parent_id uuid references messages(id) on delete cascade;
+
+create index messages_chat_id_parent_id_idx on messages(chat_id, parent_id);
+
+-- Existing chats are linear, so each message's parent is the one before it
+with ordered as (
+  select id, lag(id) over (partition by chat_id order by created_at, id) as previous_id
+  from messages
+)
+update messages
+set parent_id = ordered.previous_id
+from ordered
+where messages.id = ordered.id;
@@ -0,0 +1,60 @@
+-- Pinned chats are listed first; archived chats are hidden from the default list
+alter table chats
+  add column pinned_at timestamp with time zone,
+  add column archived_at timestamp with time zone;
+
+create index chats_user_id_created_at_idx on chats(user_id, created_at desc);
+
+-- "Users can delete their own chats" comes from 001; messages go with the chat
+-- through on delete cascade. Owners may also remove single messages.
+create policy "Users can delete messages in their chats" on messages
+  for delete using (
+    auth.uid() = (select user_id from chats where id = chat_id)
+  );
+
+-- Copies a chat with its settings, summary and full message tree. Runs with
+-- the caller's rights, so RLS limits it to the caller's own chats.
+create or replace function duplicate_chat(source_chat_id uuid)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  new_chat_id uuid;
+begin
+  insert into chats (user_id, title, system_prompt, model, temperature, top_p, max_tokens, stop, context_summary)
+  select user_id, title || ' (copy)', system_prompt, model, temperature, top_p, max_tokens, stop, context_summary
+  from chats
+  where id = source_chat_id and user_id = auth.uid()
+  returning id into new_chat_id;
+
+  if new_chat_id is null then
+    raise exception 'Chat not found or access denied';
+  end if;
+
+  -- New ids for every message, so parent pointers can be remapped
+  create temporary table message_id_map on commit drop as
+  select id as old_id, uuid_generate_v4() as new_id
+  from messages
+  where chat_id = source_chat_id;
+
+  insert into messages (id, chat_id, parent_id, role, content, created_at)
+  select map.new_id, new_chat_id, parent_map.new_id, m.role, m.content, m.created_at
+  from messages m
+  join message_id_map map on map.old_id = m.id
+  left join message_id_map parent_map on parent_map.old_id = m.parent_id;
+
+  update chats
+  set summary_through_id = (
+    select map.new_id
+    from message_id_map map
+    join chats source on source.summary_through_id = map.old_id
+    where source.id = source_chat_id
+  )
+  where id = new_chat_id;
+
+  drop table message_id_map;
+
+  return new_chat_id;
+end;
+$$;
@@ -0,0 +1,57 @@
+-- Full-text search over chat titles and message content. The indexes are on
+-- expressions rather than stored columns so rows sent to the client and over
+-- realtime stay the same size; search_chats uses the same expressions.
+create index chats_title_search_idx on chats
+  using gin (to_tsvector('english', title));
+
+create index messages_content_search_idx on messages
+  using gin (to_tsvector('english', content));
+
+-- Best matches first. Title matches have a null message_id. Snippets wrap
+-- matched terms in chr(2) ... chr(3) so the client can highlight them without
+-- rendering stored text as HTML. Runs with the caller's rights, so RLS limits
+-- results to the caller's own chats.
+create or replace function search_chats(search_query text, result_limit integer default 20)
+returns table (
+  chat_id uuid,
+  chat_title text,
+  message_id uuid,
+  message_role text,
+  snippet text,
+  rank real,
+  created_at timestamp with time zone
+)
+language sql
+stable
+security invoker
+as $$
+  with query as (
+    select websearch_to_tsquery('english', search_query) as tsq
+  ),
+  matches as (
+    select c.id as chat_id, c.title as chat_title, null::uuid as message_id,
+      null::text as message_role, c.title as body,
+      ts_rank(to_tsvector('english', c.title), query.tsq) * 2 as rank, c.created_at
+    from chats c, query
+    where to_tsvector('english', c.title) @@ query.tsq
+    union all
+    select m.chat_id, c.title, m.id, m.role, m.content,
+      ts_rank(to_tsvector('english', m.content), query.tsq), m.created_at
+    from messages m
+    join chats c on c.id = m.chat_id, query
+    where to_tsvector('english', m.content) @@ query.tsq
+    order by rank desc, created_at desc
+    limit result_limit
+  )
+  -- Headlines are expensive, so only the returned rows get one
+  select matches.chat_id, matches.chat_title, matches.message_id, matches.message_role,
+    ts_headline(
+      'english',
+      matches.body,
+      query.tsq,
+      format('StartSel="%s", StopSel="%s", MaxWords=25, MinWords=10, MaxFragments=2', chr(2), chr(3))
+    ),
+    matches.rank, matches.created_at
+  from matches, query
+  order by matches.rank desc, matches.created_at desc;
+$$;
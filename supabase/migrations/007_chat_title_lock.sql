@@ -0,0 +1,7 @@
+-- Chats created without a title are named after their first exchange.
+-- A locked title was set by the user and is never replaced.
+alter table chats
+  add column title_locked boolean not null default false;
+
+-- Titles the user typed before titles were generated count as their own
+update chats set title_locked = true where title <> 'New Chat';
@@ -0,0 +1,28 @@
+-- One row per model request: replies, summaries and generated titles.
+-- Rows outlive the chats and messages they belong to so past spend stays
+-- visible after a chat is deleted.
+create table usage_records (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users(id) not null,
+  chat_id uuid references chats(id) on delete set null,
+  -- The assistant message a reply produced; null for summaries and titles
+  message_id uuid references messages(id) on delete set null,
+  purpose text not null check (purpose in ('reply', 'summary', 'title')),
+  model text not null,
+  prompt_tokens integer not null check (prompt_tokens >= 0),
+  completion_tokens integer not null check (completion_tokens >= 0),
+  -- True when the backend reported no usage and the counts were estimated
+  estimated boolean not null default false,
+  latency_ms integer not null check (latency_ms >= 0),
+  -- USD from the price table at the time of the request; null if unknown
+  cost numeric(12, 6),
+  created_at timestamp with time zone default now() not null
+);
+
+create index usage_records_user_id_created_at_idx on usage_records(user_id, created_at desc);
+
+alter table usage_records enable row level security;
+create policy "Users can view their own usage" on usage_records
+  for select using (auth.uid() = user_id);
+create policy "Users can record their own usage" on usage_records
+  for insert with check (auth.uid() = user_id);
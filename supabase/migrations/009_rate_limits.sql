@@ -0,0 +1,77 @@
+-- Plan of each user; limits per plan are configured in the app
+-- (src/lib/quotas.ts). Users without a row get the default plan. Plans are
+-- assigned with the service role or the SQL editor, never by users.
+create table user_plans (
+  user_id uuid references auth.users(id) on delete cascade primary key,
+  plan text not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+alter table user_plans enable row level security;
+create policy "Users can view their own plan" on user_plans
+  for select using (auth.uid() = user_id);
+
+-- One row per accepted /api/chat request, kept for the rate limit window
+create table rate_limit_hits (
+  id bigint generated always as identity primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  created_at timestamp with time zone default now() not null
+);
+
+create index rate_limit_hits_user_id_created_at_idx on rate_limit_hits(user_id, created_at desc);
+
+-- Users can only read their hits; consume_rate_limit writes them, so
+-- clearing them through the API cannot lift the limit
+alter table rate_limit_hits enable row level security;
+create policy "Users can view their own rate limit hits" on rate_limit_hits
+  for select using (auth.uid() = user_id);
+
+-- Counts a request against the caller's sliding window and records it if it
+-- is allowed. Concurrent requests of one user are serialized so they cannot
+-- all pass the check at once.
+create or replace function consume_rate_limit(max_requests integer, window_seconds integer)
+returns table (allowed boolean, remaining integer, retry_after_seconds integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  window_start timestamp with time zone := now() - make_interval(secs => window_seconds);
+  recent integer;
+  oldest timestamp with time zone;
+begin
+  perform pg_advisory_xact_lock(hashtext('rate_limit:' || auth.uid()::text));
+
+  delete from rate_limit_hits
+  where user_id = auth.uid() and created_at < window_start;
+
+  select count(*), min(created_at) into recent, oldest
+  from rate_limit_hits
+  where user_id = auth.uid();
+
+  if recent >= max_requests then
+    return query select
+      false,
+      0,
+      greatest(1, ceil(extract(epoch from oldest + make_interval(secs => window_seconds) - now())))::integer;
+    return;
+  end if;
+
+  insert into rate_limit_hits (user_id) values (auth.uid());
+  return query select true, max_requests - recent - 1, 0;
+end;
+$$;
+
+-- Tokens the caller used since the start of the day and of the month
+create or replace function get_token_usage(day_start timestamp with time zone, month_start timestamp with time zone)
+returns table (daily_tokens bigint, monthly_tokens bigint)
+language sql
+stable
+security invoker
+as $$
+  select
+    coalesce(sum(prompt_tokens + completion_tokens) filter (where created_at >= day_start), 0)::bigint,
+    coalesce(sum(prompt_tokens + completion_tokens) filter (where created_at >= month_start), 0)::bigint
+  from usage_records
+  where user_id = auth.uid() and created_at >= least(day_start, month_start);
+$$;
@@ -0,0 +1,25 @@
+-- Read-only public link to a chat. Anyone with the token can view the chat
+-- through GET /api/share/[token], which reads it with the service role; the
+-- table itself is only visible to the chat owner. Deleting the row revokes
+-- the link.
+create table chat_shares (
+  id uuid default uuid_generate_v4() primary key,
+  chat_id uuid references chats(id) on delete cascade not null unique,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  token text not null unique,
+  include_system_prompt boolean not null default false,
+  created_at timestamp with time zone default now() not null
+);
+
+alter table chat_shares enable row level security;
+create policy "Users can view their own chat shares" on chat_shares
+  for select using (auth.uid() = user_id);
+create policy "Users can share their own chats" on chat_shares
+  for insert with check (
+    auth.uid() = user_id
+    and exists (select 1 from chats where chats.id = chat_id and chats.user_id = auth.uid())
+  );
+create policy "Users can update their own chat shares" on chat_shares
+  for update using (auth.uid() = user_id);
+create policy "Users can revoke their own chat shares" on chat_shares
+  for delete using (auth.uid() = user_id);
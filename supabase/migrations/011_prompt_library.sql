@@ -0,0 +1,74 @@
+-- Named system prompts in each user's library. A prompt may contain
+-- {{variables}}; see src/lib/prompts.ts.
+create table prompts (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null check (char_length(name) between 1 and 100),
+  content text not null check (char_length(content) <= 10000),
+  -- Set while a copy link exists. Other users copy the prompt through
+  -- /api/prompts/shared/[token], which reads it with the service role.
+  share_token text unique,
+  created_at timestamp with time zone default now() not null
+);
+
+create index prompts_user_id_name_idx on prompts(user_id, name);
+
+alter table prompts enable row level security;
+create policy "Users can view their own prompts" on prompts
+  for select using (auth.uid() = user_id);
+create policy "Users can create their own prompts" on prompts
+  for insert with check (auth.uid() = user_id);
+create policy "Users can update their own prompts" on prompts
+  for update using (auth.uid() = user_id);
+create policy "Users can delete their own prompts" on prompts
+  for delete using (auth.uid() = user_id);
+
+-- Values of the custom {{fields}} in the chat's system prompt, filled in
+-- when the context is built
+alter table chats add column prompt_variables jsonb not null default '{}'::jsonb;
+
+-- Same as in 005, now also copying prompt_variables
+create or replace function duplicate_chat(source_chat_id uuid)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  new_chat_id uuid;
+begin
+  insert into chats (user_id, title, system_prompt, prompt_variables, model, temperature, top_p, max_tokens, stop, context_summary)
+  select user_id, title || ' (copy)', system_prompt, prompt_variables, model, temperature, top_p, max_tokens, stop, context_summary
+  from chats
+  where id = source_chat_id and user_id = auth.uid()
+  returning id into new_chat_id;
+
+  if new_chat_id is null then
+    raise exception 'Chat not found or access denied';
+  end if;
+
+  -- New ids for every message, so parent pointers can be remapped
+  create temporary table message_id_map on commit drop as
+  select id as old_id, uuid_generate_v4() as new_id
+  from messages
+  where chat_id = source_chat_id;
+
+  insert into messages (id, chat_id, parent_id, role, content, created_at)
+  select map.new_id, new_chat_id, parent_map.new_id, m.role, m.content, m.created_at
+  from messages m
+  join message_id_map map on map.old_id = m.id
+  left join message_id_map parent_map on parent_map.old_id = m.parent_id;
+
+  update chats
+  set summary_through_id = (
+    select map.new_id
+    from message_id_map map
+    join chats source on source.summary_through_id = map.old_id
+    where source.id = source_chat_id
+  )
+  where id = new_chat_id;
+
+  drop table message_id_map;
+
+  return new_chat_id;
+end;
+$$;
@@ -0,0 +1,66 @@
+-- Files attached to user messages. The file itself lives in storage (the
+-- private "attachments" bucket below, or the local stand-in in development);
+-- the text extracted from it is kept here and added to the model context.
+create table attachments (
+  id uuid default uuid_generate_v4() primary key,
+  chat_id uuid references chats(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  -- Null between the upload and sending the message
+  message_id uuid references messages(id) on delete cascade,
+  name text not null,
+  content_type text not null,
+  size integer not null check (size >= 0),
+  -- "<user id>/<chat id>/<attachment id>" in the storage backend
+  storage_path text not null unique,
+  extracted_text text not null,
+  truncated boolean not null default false,
+  created_at timestamp with time zone default now() not null
+);
+
+create index attachments_chat_id_idx on attachments(chat_id);
+create index attachments_message_id_idx on attachments(message_id);
+
+alter table attachments enable row level security;
+create policy "Users can view their own attachments" on attachments
+  for select using (auth.uid() = user_id);
+create policy "Users can add attachments to their own chats" on attachments
+  for insert with check (
+    auth.uid() = user_id
+    and exists (select 1 from chats where chats.id = chat_id and chats.user_id = auth.uid())
+  );
+-- Sending a message links its uploads to it, which is the only change
+-- allowed; the message must be in the attachment's chat
+revoke update on attachments from anon, authenticated;
+grant update (message_id) on attachments to authenticated;
+create policy "Users can link their own attachments to messages" on attachments
+  for update using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      message_id is null
+      or exists (
+        select 1 from messages where messages.id = message_id and messages.chat_id = attachments.chat_id
+      )
+    )
+  );
+create policy "Users can delete their own attachments" on attachments
+  for delete using (auth.uid() = user_id);
+
+-- Private bucket; each user can only reach the folder named after their id.
+-- Rows removed with their chat leave their files behind in the bucket.
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', false)
+on conflict (id) do nothing;
+
+create policy "Users can read their own attachment files" on storage.objects
+  for select using (
+    bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+create policy "Users can upload their own attachment files" on storage.objects
+  for insert with check (
+    bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text
+  );
+create policy "Users can delete their own attachment files" on storage.objects
+  for delete using (
+    bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,208 @@
+-- Knowledge bases: documents split into chunks and embedded for retrieval.
+-- Chats that attach a knowledge base get the closest chunks with every reply.
+create extension if not exists vector;
+
+create table knowledge_bases (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null check (char_length(name) between 1 and 100),
+  description text,
+  created_at timestamp with time zone default now() not null
+);
+
+create index knowledge_bases_user_id_name_idx on knowledge_bases(user_id, name);
+
+create table knowledge_documents (
+  id uuid default uuid_generate_v4() primary key,
+  knowledge_base_id uuid references knowledge_bases(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  content_type text not null,
+  size integer not null check (size >= 0),
+  chunk_count integer not null check (chunk_count >= 0),
+  -- Set when only the beginning of the text was indexed
+  truncated boolean not null default false,
+  created_at timestamp with time zone default now() not null
+);
+
+create index knowledge_documents_knowledge_base_id_idx on knowledge_documents(knowledge_base_id);
+
+-- The vector length matches EMBEDDING_DIMENSIONS in src/lib/ai/types.ts
+create table knowledge_chunks (
+  id uuid default uuid_generate_v4() primary key,
+  document_id uuid references knowledge_documents(id) on delete cascade not null,
+  knowledge_base_id uuid references knowledge_bases(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  chunk_index integer not null check (chunk_index >= 0),
+  content text not null,
+  embedding vector(1536) not null,
+  unique (document_id, chunk_index)
+);
+
+create index knowledge_chunks_knowledge_base_id_idx on knowledge_chunks(knowledge_base_id);
+create index knowledge_chunks_embedding_idx on knowledge_chunks
+  using hnsw (embedding vector_cosine_ops);
+
+-- Knowledge bases a chat searches
+create table chat_knowledge_bases (
+  chat_id uuid references chats(id) on delete cascade not null,
+  knowledge_base_id uuid references knowledge_bases(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  created_at timestamp with time zone default now() not null,
+  primary key (chat_id, knowledge_base_id)
+);
+
+alter table knowledge_bases enable row level security;
+create policy "Users can view their own knowledge bases" on knowledge_bases
+  for select using (auth.uid() = user_id);
+create policy "Users can create their own knowledge bases" on knowledge_bases
+  for insert with check (auth.uid() = user_id);
+create policy "Users can update their own knowledge bases" on knowledge_bases
+  for update using (auth.uid() = user_id);
+create policy "Users can delete their own knowledge bases" on knowledge_bases
+  for delete using (auth.uid() = user_id);
+
+alter table knowledge_documents enable row level security;
+create policy "Users can view their own documents" on knowledge_documents
+  for select using (auth.uid() = user_id);
+create policy "Users can add documents to their own knowledge bases" on knowledge_documents
+  for insert with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from knowledge_bases
+      where knowledge_bases.id = knowledge_base_id and knowledge_bases.user_id = auth.uid()
+    )
+  );
+create policy "Users can delete their own documents" on knowledge_documents
+  for delete using (auth.uid() = user_id);
+
+alter table knowledge_chunks enable row level security;
+create policy "Users can view their own chunks" on knowledge_chunks
+  for select using (auth.uid() = user_id);
+create policy "Users can add chunks to their own documents" on knowledge_chunks
+  for insert with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from knowledge_documents
+      where knowledge_documents.id = document_id
+        and knowledge_documents.knowledge_base_id = knowledge_chunks.knowledge_base_id
+        and knowledge_documents.user_id = auth.uid()
+    )
+  );
+
+alter table chat_knowledge_bases enable row level security;
+create policy "Users can view the knowledge bases of their chats" on chat_knowledge_bases
+  for select using (auth.uid() = user_id);
+create policy "Users can attach their knowledge bases to their chats" on chat_knowledge_bases
+  for insert with check (
+    auth.uid() = user_id
+    and exists (select 1 from chats where chats.id = chat_id and chats.user_id = auth.uid())
+    and exists (
+      select 1 from knowledge_bases
+      where knowledge_bases.id = knowledge_base_id and knowledge_bases.user_id = auth.uid()
+    )
+  );
+create policy "Users can detach knowledge bases from their chats" on chat_knowledge_bases
+  for delete using (auth.uid() = user_id);
+
+-- Closest chunks to a query embedding by cosine distance. Runs with the
+-- caller's rights, so only their own chunks are found.
+create or replace function match_knowledge_chunks(
+  query_embedding vector(1536),
+  knowledge_base_ids uuid[],
+  match_count integer
+)
+returns table (
+  id uuid,
+  document_id uuid,
+  document_name text,
+  chunk_index integer,
+  content text,
+  similarity double precision
+)
+language sql
+stable
+security invoker
+as $$
+  -- The chunks of the chosen knowledge bases are picked first and ranked
+  -- exactly. Ranking through the HNSW index would filter its few nearest
+  -- candidates afterwards, which can leave a user whose chunks are a small
+  -- share of the table with no matches at all.
+  with candidates as materialized (
+    select c.id, c.document_id, c.chunk_index, c.content, c.embedding <=> query_embedding as distance
+    from knowledge_chunks c
+    where c.knowledge_base_id = any(knowledge_base_ids)
+  )
+  select
+    c.id,
+    c.document_id,
+    d.name,
+    c.chunk_index,
+    c.content,
+    1 - c.distance
+  from candidates c
+  join knowledge_documents d on d.id = c.document_id
+  order by c.distance
+  limit match_count;
+$$;
+
+-- Sources an assistant reply was given, as [{ index, chunkId, documentId,
+-- documentName, chunkIndex }]
+alter table messages add column citations jsonb;
+
+-- Embedding requests for documents and searches are recorded too; those made
+-- while indexing a document have no chat
+alter table usage_records drop constraint usage_records_purpose_check;
+alter table usage_records add constraint usage_records_purpose_check
+  check (purpose in ('reply', 'summary', 'title', 'embedding'));
+
+-- Same as in 011, now also copying citations and attached knowledge bases
+create or replace function duplicate_chat(source_chat_id uuid)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  new_chat_id uuid;
+begin
+  insert into chats (user_id, title, system_prompt, prompt_variables, model, temperature, top_p, max_tokens, stop, context_summary)
+  select user_id, title || ' (copy)', system_prompt, prompt_variables, model, temperature, top_p, max_tokens, stop, context_summary
+  from chats
+  where id = source_chat_id and user_id = auth.uid()
+  returning id into new_chat_id;
+
+  if new_chat_id is null then
+    raise exception 'Chat not found or access denied';
+  end if;
+
+  -- New ids for every message, so parent pointers can be remapped
+  create temporary table message_id_map on commit drop as
+  select id as old_id, uuid_generate_v4() as new_id
+  from messages
+  where chat_id = source_chat_id;
+
+  insert into messages (id, chat_id, parent_id, role, content, citations, created_at)
+  select map.new_id, new_chat_id, parent_map.new_id, m.role, m.content, m.citations, m.created_at
+  from messages m
+  join message_id_map map on map.old_id = m.id
+  left join message_id_map parent_map on parent_map.old_id = m.parent_id;
+
+  update chats
+  set summary_through_id = (
+    select map.new_id
+    from message_id_map map
+    join chats source on source.summary_through_id = map.old_id
+    where source.id = source_chat_id
+  )
+  where id = new_chat_id;
+
+  insert into chat_knowledge_bases (chat_id, knowledge_base_id, user_id)
+  select new_chat_id, knowledge_base_id, user_id
+  from chat_knowledge_bases
+  where chat_id = source_chat_id;
+
+  drop table message_id_map;
+
+  return new_chat_id;
+end;
+$$;
@@ -0,0 +1,59 @@
+-- Tool calling: chats that turn it on let the model call built-in tools
+-- while it writes a reply. Each call is stored as a message with role 'tool'
+-- between the user message and the reply, holding the call and its result.
+alter table chats add column tools_enabled boolean not null default false;
+
+-- {"id", "name", "arguments"} of the call a tool message answers; content
+-- holds the result. Null for other roles.
+alter table messages add column tool_call jsonb;
+
+-- Copies tool settings and tool steps along with the rest of the chat
+create or replace function duplicate_chat(source_chat_id uuid)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  new_chat_id uuid;
+begin
+  insert into chats (user_id, title, system_prompt, prompt_variables, model, temperature, top_p, max_tokens, stop, context_summary, tools_enabled)
+  select user_id, title || ' (copy)', system_prompt, prompt_variables, model, temperature, top_p, max_tokens, stop, context_summary, tools_enabled
+  from chats
+  where id = source_chat_id and user_id = auth.uid()
+  returning id into new_chat_id;
+
+  if new_chat_id is null then
+    raise exception 'Chat not found or access denied';
+  end if;
+
+  -- New ids for every message, so parent pointers can be remapped
+  create temporary table message_id_map on commit drop as
+  select id as old_id, uuid_generate_v4() as new_id
+  from messages
+  where chat_id = source_chat_id;
+
+  insert into messages (id, chat_id, parent_id, role, content, citations, tool_call, created_at)
+  select map.new_id, new_chat_id, parent_map.new_id, m.role, m.content, m.citations, m.tool_call, m.created_at
+  from messages m
+  join message_id_map map on map.old_id = m.id
+  left join message_id_map parent_map on parent_map.old_id = m.parent_id;
+
+  update chats
+  set summary_through_id = (
+    select map.new_id
+    from message_id_map map
+    join chats source on source.summary_through_id = map.old_id
+    where source.id = source_chat_id
+  )
+  where id = new_chat_id;
+
+  insert into chat_knowledge_bases (chat_id, knowledge_base_id, user_id)
+  select new_chat_id, knowledge_base_id, user_id
+  from chat_knowledge_bases
+  where chat_id = source_chat_id;
+
+  drop table message_id_map;
+
+  return new_chat_id;
+end;
+$$;
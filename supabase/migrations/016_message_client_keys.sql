@@ -0,0 +1,7 @@
+-- Idempotency keys chosen by the client for each request to /api/chat. A
+-- retried request finds the user message and the reply already saved under
+-- its key instead of creating them again.
+alter table messages add column client_key text;
+
+-- One user message and one reply per key; rows without a key don't conflict
+create unique index messages_chat_id_role_client_key_idx on messages(chat_id, role, client_key);
@@ -0,0 +1,3 @@
+-- The chat page loads messages newest first, a page at a time, by a
+-- (created_at, id) cursor
+create index messages_chat_id_created_at_id_idx on messages(chat_id, created_at desc, id desc);
@@ -0,0 +1,16 @@
+-- Open chats follow inserts, updates and deletes of their messages and
+-- changes to the chat itself through Supabase Realtime. Tables already added
+-- in the dashboard are left as they are.
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array['messages', 'chats'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = table_name
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', table_name);
+    end if;
+  end loop;
+end $$;
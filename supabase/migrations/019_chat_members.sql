@@ -0,0 +1,326 @@
+-- Chats shared with other users. Every chat has one owner (chats.user_id),
+-- who can invite others by email as editors, who can send messages and
+-- change the chat's prompt and settings, or viewers, who can only read it.
+create table chat_members (
+  chat_id uuid references chats(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  -- Shown to the other members; copied from the account when they join
+  email text not null,
+  created_at timestamp with time zone default now() not null,
+  primary key (chat_id, user_id)
+);
+
+create index chat_members_user_id_idx on chat_members(user_id);
+
+-- Invitations wait here until the invited address signs in and accepts
+create table chat_invitations (
+  id uuid default uuid_generate_v4() primary key,
+  chat_id uuid references chats(id) on delete cascade not null,
+  email text not null check (email = lower(email)),
+  role text not null check (role in ('editor', 'viewer')),
+  invited_by uuid references auth.users(id) on delete cascade not null,
+  created_at timestamp with time zone default now() not null,
+  unique (chat_id, email)
+);
+
+-- Who wrote each user message; null for replies, tool steps and the
+-- messages of deleted accounts
+alter table messages add column user_id uuid references auth.users(id) on delete set null;
+
+update messages
+set user_id = chats.user_id
+from chats
+where chats.id = messages.chat_id and messages.role = 'user';
+
+-- The caller's role in a chat, or null. Policies on chat_members use it too,
+-- so it reads the table with the definer's rights instead of recursing.
+create or replace function chat_role(target_chat_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from chat_members where chat_id = target_chat_id and user_id = auth.uid();
+$$;
+
+-- New chats, including imported and duplicated ones, start with their owner
+create or replace function add_chat_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into chat_members (chat_id, user_id, role, email)
+  select new.id, new.user_id, 'owner', lower(coalesce(users.email, ''))
+  from auth.users
+  where users.id = new.user_id;
+  return new;
+end;
+$$;
+
+create trigger chats_add_owner
+  after insert on chats
+  for each row execute function add_chat_owner();
+
+insert into chat_members (chat_id, user_id, role, email, created_at)
+select chats.id, chats.user_id, 'owner', lower(coalesce(users.email, '')), chats.created_at
+from chats
+join auth.users on users.id = chats.user_id
+on conflict (chat_id, user_id) do nothing;
+
+-- Nobody can hand a chat to someone else. Editors may change the prompt,
+-- settings, title and summary, but pinning, archiving and the title lock
+-- belong to the owner's chat list.
+create or replace function keep_chat_owner()
+returns trigger
+language plpgsql
+as $$
+declare
+  editor_columns text[] := array[
+    'title', 'system_prompt', 'prompt_variables', 'model', 'temperature', 'top_p',
+    'max_tokens', 'stop', 'tools_enabled', 'context_summary', 'summary_through_id'
+  ];
+begin
+  if new.user_id <> old.user_id then
+    raise exception 'The owner of a chat cannot be changed';
+  end if;
+  if chat_role(old.id) = 'editor'
+    and to_jsonb(new) - editor_columns is distinct from to_jsonb(old) - editor_columns then
+    raise exception 'Editors can only change the prompt, settings and title of a chat';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger chats_keep_owner
+  before update on chats
+  for each row execute function keep_chat_owner();
+
+alter table chat_members enable row level security;
+create policy "Members can view the members of their chats" on chat_members
+  for select using (chat_role(chat_id) is not null);
+-- Only the role can change; moving a row to another chat or user would
+-- let an owner add anyone to any chat
+revoke update on chat_members from anon, authenticated;
+grant update (role) on chat_members to authenticated;
+create policy "Owners can change the roles of members" on chat_members
+  for update using (chat_role(chat_id) = 'owner' and role <> 'owner')
+  with check (chat_role(chat_id) = 'owner' and role in ('editor', 'viewer'));
+-- Owners remove members; members leave. The owner row stays with the chat.
+create policy "Owners can remove members and members can leave" on chat_members
+  for delete using (
+    role <> 'owner' and (chat_role(chat_id) = 'owner' or user_id = auth.uid())
+  );
+
+alter table chat_invitations enable row level security;
+create policy "Owners and invitees can view invitations" on chat_invitations
+  for select using (
+    chat_role(chat_id) = 'owner' or email = lower(auth.jwt() ->> 'email')
+  );
+create policy "Owners can invite to their chats" on chat_invitations
+  for insert with check (chat_role(chat_id) = 'owner' and invited_by = auth.uid());
+create policy "Owners can revoke and invitees can decline invitations" on chat_invitations
+  for delete using (
+    chat_role(chat_id) = 'owner' or email = lower(auth.jwt() ->> 'email')
+  );
+
+-- Owner-only policies from 001 stay; these add access for members
+create policy "Members can view chats they belong to" on chats
+  for select using (chat_role(id) is not null);
+create policy "Editors can update chats they belong to" on chats
+  for update using (chat_role(id) = 'editor');
+
+drop policy "Users can view messages in their chats" on messages;
+create policy "Members can view messages in their chats" on messages
+  for select using (chat_role(chat_id) is not null);
+drop policy "Users can insert messages into their chats" on messages;
+create policy "Editors can add messages to their chats" on messages
+  for insert with check (
+    chat_role(chat_id) in ('owner', 'editor')
+    and (user_id is null or user_id = auth.uid())
+  );
+
+-- Files sent by one member are read by the others and given to the model
+-- with their messages
+create policy "Members can view attachments in their chats" on attachments
+  for select using (chat_role(chat_id) is not null);
+drop policy "Users can add attachments to their own chats" on attachments;
+create policy "Editors can add attachments to their chats" on attachments
+  for insert with check (
+    auth.uid() = user_id and chat_role(chat_id) in ('owner', 'editor')
+  );
+create policy "Members can read attachment files in their chats" on storage.objects
+  for select using (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from attachments
+      where attachments.storage_path = objects.name
+        and chat_role(attachments.chat_id) is not null
+    )
+  );
+
+-- Knowledge bases linked to a chat are searched for every editor's
+-- messages, and members can open the sources cited in its replies. Linking
+-- and changing them stays with their owner.
+create or replace function is_linked_knowledge_base(target_knowledge_base_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from chat_knowledge_bases
+    where knowledge_base_id = target_knowledge_base_id and chat_role(chat_id) is not null
+  );
+$$;
+
+create policy "Members can view the knowledge bases of their chats" on chat_knowledge_bases
+  for select using (chat_role(chat_id) is not null);
+create policy "Members can view knowledge bases linked to their chats" on knowledge_bases
+  for select using (is_linked_knowledge_base(id));
+create policy "Members can view documents linked to their chats" on knowledge_documents
+  for select using (is_linked_knowledge_base(knowledge_base_id));
+create policy "Members can view chunks linked to their chats" on knowledge_chunks
+  for select using (is_linked_knowledge_base(knowledge_base_id));
+
+-- Usage is recorded for whoever made the request, who may not own the chat
+alter table usage_records alter column user_id set default auth.uid();
+
+-- Invitations addressed to the caller, with what they need to decide
+create or replace function list_chat_invitations()
+returns table (
+  id uuid,
+  chat_id uuid,
+  chat_title text,
+  role text,
+  invited_by_email text,
+  created_at timestamp with time zone
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select invitations.id, invitations.chat_id, chats.title, invitations.role,
+    inviter.email, invitations.created_at
+  from chat_invitations invitations
+  join chats on chats.id = invitations.chat_id
+  left join chat_members inviter
+    on inviter.chat_id = invitations.chat_id and inviter.user_id = invitations.invited_by
+  where invitations.email = lower(auth.jwt() ->> 'email')
+  order by invitations.created_at desc;
+$$;
+
+-- Joins the chat an invitation is for. Existing members keep their role.
+create or replace function accept_chat_invitation(invitation_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation chat_invitations;
+  caller_email text := lower(auth.jwt() ->> 'email');
+begin
+  select * into invitation
+  from chat_invitations
+  where chat_invitations.id = invitation_id and chat_invitations.email = caller_email;
+
+  if invitation.id is null then
+    raise exception 'Invitation not found';
+  end if;
+
+  insert into chat_members (chat_id, user_id, role, email)
+  values (invitation.chat_id, auth.uid(), invitation.role, caller_email)
+  on conflict (chat_id, user_id) do nothing;
+
+  delete from chat_invitations where chat_invitations.id = invitation_id;
+
+  return invitation.chat_id;
+end;
+$$;
+
+-- Members may copy a chat into one of their own. The caller is the only
+-- member of the copy, so its user messages are credited to them, and only
+-- their own knowledge base links come along.
+create or replace function duplicate_chat(source_chat_id uuid)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  new_chat_id uuid;
+begin
+  insert into chats (user_id, title, system_prompt, prompt_variables, model, temperature, top_p, max_tokens, stop, context_summary, tools_enabled)
+  select auth.uid(), title || ' (copy)', system_prompt, prompt_variables, model, temperature, top_p, max_tokens, stop, context_summary, tools_enabled
+  from chats
+  where id = source_chat_id and chat_role(id) is not null
+  returning id into new_chat_id;
+
+  if new_chat_id is null then
+    raise exception 'Chat not found or access denied';
+  end if;
+
+  -- New ids for every message, so parent pointers can be remapped
+  create temporary table message_id_map on commit drop as
+  select id as old_id, uuid_generate_v4() as new_id
+  from messages
+  where chat_id = source_chat_id;
+
+  insert into messages (id, chat_id, parent_id, role, content, citations, tool_call, stopped, user_id, created_at)
+  select map.new_id, new_chat_id, parent_map.new_id, m.role, m.content, m.citations, m.tool_call, m.stopped,
+    case when m.user_id is null then null else auth.uid() end, m.created_at
+  from messages m
+  join message_id_map map on map.old_id = m.id
+  left join message_id_map parent_map on parent_map.old_id = m.parent_id;
+
+  update chats
+  set summary_through_id = (
+    select map.new_id
+    from message_id_map map
+    join chats source on source.summary_through_id = map.old_id
+    where source.id = source_chat_id
+  )
+  where id = new_chat_id;
+
+  insert into chat_knowledge_bases (chat_id, knowledge_base_id, user_id)
+  select new_chat_id, knowledge_base_id, user_id
+  from chat_knowledge_bases
+  where chat_id = source_chat_id and user_id = auth.uid();
+
+  drop table message_id_map;
+
+  return new_chat_id;
+end;
+$$;
+
+-- Presence channels ("presence:<chat id>") are private, so only members
+-- of the chat can see who has it open or share that they do
+create policy "Members can read presence in their chats" on realtime.messages
+  for select to authenticated using (
+    realtime.messages.extension = 'presence'
+    and split_part(realtime.topic(), ':', 1) = 'presence'
+    and exists (
+      select 1 from chat_members
+      where chat_members.chat_id::text = split_part(realtime.topic(), ':', 2)
+        and chat_members.user_id = auth.uid()
+    )
+  );
+create policy "Members can share presence in their chats" on realtime.messages
+  for insert to authenticated with check (
+    realtime.messages.extension = 'presence'
+    and split_part(realtime.topic(), ':', 1) = 'presence'
+    and exists (
+      select 1 from chat_members
+      where chat_members.chat_id::text = split_part(realtime.topic(), ':', 2)
+        and chat_members.user_id = auth.uid()
+    )
+  );
+
+-- Open chats reload their member list when someone joins, leaves or
+-- changes role
+alter publication supabase_realtime add table chat_members;